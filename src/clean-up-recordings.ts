@@ -0,0 +1,25 @@
+import { environment, LaunchType, showHUD } from "@raycast/api";
+import { syncHistoryIndex } from "./utils/historyIndex";
+import { getQueue } from "./utils/queue";
+import { applyRetentionPolicy, getRetentionSettings, hasRetentionPolicy } from "./utils/retention";
+import { formatFileSize } from "./utils/formatting";
+
+export default async function Command() {
+  const settings = getRetentionSettings();
+  const { deletedCount, freedBytes } = await applyRetentionPolicy(undefined, settings);
+
+  if (deletedCount > 0) {
+    await syncHistoryIndex(await getQueue());
+  }
+
+  // Only report back when the user ran the command themselves
+  if (environment.launchType === LaunchType.UserInitiated) {
+    await showHUD(
+      !hasRetentionPolicy(settings)
+        ? "No retention rules are set in the extension preferences"
+        : deletedCount === 0
+          ? "No recordings needed cleaning up"
+          : `Deleted the audio of ${deletedCount} ${deletedCount === 1 ? "recording" : "recordings"}, freeing ${formatFileSize(freedBytes)}`,
+    );
+  }
+}
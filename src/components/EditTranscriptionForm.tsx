@@ -0,0 +1,69 @@
+import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast, useForm } from "@raycast/utils";
+import { saveEditedTranscription } from "../utils/ai/transcription";
+import { TranscriptionFile, TranscriptionResult } from "../types";
+
+interface EditTranscriptionFormValues {
+  text: string;
+}
+
+export function EditTranscriptionForm({
+  file,
+  onSave,
+}: {
+  file: TranscriptionFile;
+  onSave: (file: TranscriptionFile, transcription: TranscriptionResult) => void;
+}) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<EditTranscriptionFormValues>({
+    onSubmit: async (values) => {
+      if (values.text.trim() === file.transcription?.trim()) {
+        pop();
+        return;
+      }
+
+      try {
+        const transcription = await saveEditedTranscription(file.filePath, values.text);
+
+        onSave(file, transcription);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Transcription Saved",
+          message: "Saved as a new revision",
+        });
+        pop();
+      } catch (error) {
+        console.error("Error saving edited transcription:", error);
+        await showFailureToast(error, { title: "Failed to Save Transcription" });
+      }
+    },
+    initialValues: {
+      text: file.transcription ?? "",
+    },
+    validation: {
+      text: (value) => {
+        if (!value?.trim()) return "The transcription can't be empty";
+      },
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle="Edit Transcription"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Revision" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea {...itemProps.text} title="Transcription" enableMarkdown={false} />
+      {!!file.segments?.length && (
+        <Form.Description text="Timestamps belong to the current text, so they are removed when you save. Restoring this version from Revision History brings them back." />
+      )}
+      {file.postProcessing && (
+        <Form.Description text="Template output is removed as well. Apply the template again after editing." />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,171 @@
+import { Action, ActionPanel, Form, Toast, showInFinder, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast, useForm } from "@raycast/utils";
+import { CUE_SPLIT_OPTIONS, EXPORT_DEFAULTS, EXPORT_FORMATS } from "../constants";
+import { loadTranscription } from "../utils/ai/transcription";
+import { exportTranscription } from "../utils/export";
+import { runBulkOperation } from "../utils/bulk";
+import { CueSplitMode, ExportFormat, TranscriptionFile } from "../types";
+
+interface ExportFormValues {
+  formats: string[];
+  destination: string;
+  folder: string[];
+  maxLineLength: string;
+  maxLinesPerCue: string;
+  splitMode: string;
+}
+
+const validatePositiveNumber = (value?: string) => {
+  if (!value || !/^\d+$/.test(value) || Number(value) <= 0) {
+    return "Enter a positive whole number";
+  }
+};
+
+const SUBTITLE_FORMATS: ExportFormat[] = ["srt", "vtt"];
+
+export function ExportForm({ files }: { files: TranscriptionFile[] }) {
+  const { pop } = useNavigation();
+  const hasSegments = files.some((file) => (file.segments?.length ?? 0) > 0);
+  const availableFormats = EXPORT_FORMATS.filter(
+    (format) => hasSegments || (format.value !== "srt" && format.value !== "vtt"),
+  );
+
+  const { handleSubmit, itemProps, values } = useForm<ExportFormValues>({
+    onSubmit: async (values) => {
+      const formats = values.formats as ExportFormat[];
+      const options = {
+        directory: values.destination === "folder" ? values.folder[0] : undefined,
+        maxLineLength: Number(values.maxLineLength),
+        maxLinesPerCue: Number(values.maxLinesPerCue),
+        splitMode: values.splitMode as CueSplitMode,
+      };
+
+      if (files.length > 1) {
+        pop();
+        await runBulkOperation(files, {
+          title: "Exporting",
+          doneTitle: "Exported",
+          operation: async (file) => {
+            const transcription = await loadTranscription(file.filePath);
+            // Recordings without timestamps still get the formats that don't need them
+            const fileFormats = transcription?.segments?.length
+              ? formats
+              : formats.filter((format) => !SUBTITLE_FORMATS.includes(format));
+            if (!transcription || fileFormats.length === 0) {
+              return "skipped";
+            }
+
+            await exportTranscription(transcription, file.filePath, fileFormats, options);
+          },
+        });
+        return;
+      }
+
+      const [file] = files;
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting..." });
+
+      try {
+        const transcription = await loadTranscription(file.filePath);
+        if (!transcription) {
+          throw new Error("This recording has no saved transcription");
+        }
+
+        const writtenFiles = await exportTranscription(transcription, file.filePath, formats, options);
+
+        toast.style = Toast.Style.Success;
+        toast.title = `Exported ${writtenFiles.length} ${writtenFiles.length === 1 ? "file" : "files"}`;
+        toast.primaryAction = {
+          title: "Show in Finder",
+          onAction: () => showInFinder(writtenFiles[0]),
+        };
+
+        pop();
+      } catch (error) {
+        console.error("Export error:", error);
+        await showFailureToast(error, { title: "Export Failed" });
+      }
+    },
+    initialValues: {
+      formats: [availableFormats[0].value],
+      destination: "recording",
+      folder: [],
+      maxLineLength: String(EXPORT_DEFAULTS.MAX_LINE_LENGTH),
+      maxLinesPerCue: String(EXPORT_DEFAULTS.MAX_LINES_PER_CUE),
+      splitMode: EXPORT_DEFAULTS.SPLIT_MODE,
+    },
+    validation: {
+      formats: (value) => {
+        if (!value || value.length === 0) return "Select at least one format";
+      },
+      folder: (value) => {
+        if (values.destination === "folder" && (!value || value.length === 0)) return "Choose a folder";
+      },
+      maxLineLength: validatePositiveNumber,
+      maxLinesPerCue: validatePositiveNumber,
+    },
+  });
+
+  const exportsSubtitles = values.formats.includes("srt") || values.formats.includes("vtt");
+
+  return (
+    <Form
+      navigationTitle={files.length === 1 ? "Export Transcription" : `Export ${files.length} Transcriptions`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker {...itemProps.formats} title="Formats">
+        {availableFormats.map((format) => (
+          <Form.TagPicker.Item key={format.value} value={format.value} title={format.title} />
+        ))}
+      </Form.TagPicker>
+      {!hasSegments && (
+        <Form.Description
+          text={`Subtitle formats need segment timestamps. Re-transcribe ${files.length === 1 ? "this recording" : "these recordings"} to export them.`}
+        />
+      )}
+      {hasSegments && files.some((file) => !file.segments?.length) && (
+        <Form.Description text="Recordings without segment timestamps are exported in the other formats only." />
+      )}
+
+      <Form.Dropdown {...itemProps.destination} title="Destination">
+        <Form.Dropdown.Item value="recording" title="Next to the Recording" />
+        <Form.Dropdown.Item value="folder" title="Choose a Folder" />
+      </Form.Dropdown>
+      {values.destination === "folder" && (
+        <Form.FilePicker
+          {...itemProps.folder}
+          title="Folder"
+          allowMultipleSelection={false}
+          canChooseDirectories
+          canChooseFiles={false}
+        />
+      )}
+
+      {exportsSubtitles && (
+        <>
+          <Form.Separator />
+          <Form.TextField
+            {...itemProps.maxLineLength}
+            title="Max Line Length"
+            info="Maximum number of characters per subtitle line"
+          />
+          <Form.Dropdown {...itemProps.splitMode} title="Cue Splitting">
+            {CUE_SPLIT_OPTIONS.map((option) => (
+              <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+            ))}
+          </Form.Dropdown>
+          {values.splitMode === "lines" && (
+            <Form.TextField
+              {...itemProps.maxLinesPerCue}
+              title="Max Lines per Cue"
+              info="Segments longer than this are split into several cues"
+            />
+          )}
+        </>
+      )}
+    </Form>
+  );
+}
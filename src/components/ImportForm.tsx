@@ -0,0 +1,96 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Form,
+  LaunchType,
+  Toast,
+  launchCommand,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useForm } from "@raycast/utils";
+import path from "path";
+import { IMPORT_FILE_EXTENSIONS } from "../constants";
+import { importAudioFile, isImportableFile } from "../utils/import";
+
+interface ImportFormValues {
+  files: string[];
+}
+
+/**
+ * Imports audio and video files into history. Pushed from history it returns there once done,
+ * as a command of its own it stays open for the next import.
+ */
+export function ImportForm({ onImport }: { onImport?: (filePaths: string[]) => void }) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps, reset } = useForm<ImportFormValues>({
+    onSubmit: async (values) => {
+      const toast = await showToast({ style: Toast.Style.Animated, title: `Importing 0/${values.files.length}` });
+      const importedPaths: string[] = [];
+      const failures: string[] = [];
+
+      for (const [index, filePath] of values.files.entries()) {
+        toast.title = `Importing ${index + 1}/${values.files.length}`;
+        toast.message = path.basename(filePath);
+
+        try {
+          importedPaths.push(await importAudioFile(filePath));
+        } catch (error) {
+          console.error(`Error importing ${filePath}:`, error);
+          failures.push(`${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      toast.style = failures.length > 0 ? Toast.Style.Failure : Toast.Style.Success;
+      toast.title = `Imported ${importedPaths.length} of ${values.files.length} ${values.files.length === 1 ? "file" : "files"}`;
+      toast.message = failures.length > 0 ? `${failures.length} failed` : "Transcribe them from Transcription History";
+
+      if (failures.length > 0) {
+        toast.primaryAction = { title: "Copy Errors", onAction: () => Clipboard.copy(failures.join("\n")) };
+      } else if (!onImport) {
+        toast.primaryAction = {
+          title: "Open Transcription History",
+          onAction: () => launchCommand({ name: "transcription-history", type: LaunchType.UserInitiated }),
+        };
+      }
+
+      if (importedPaths.length === 0) return;
+
+      if (onImport) {
+        onImport(importedPaths);
+        pop();
+      } else {
+        reset({ files: [] });
+      }
+    },
+    initialValues: {
+      files: [],
+    },
+    validation: {
+      files: (value) => {
+        if (!value?.length) return "Choose at least one file";
+
+        const unsupported = value.find((filePath) => !isImportableFile(filePath));
+        if (unsupported) return `${path.basename(unsupported)} isn't a supported audio or video file`;
+      },
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle="Import Audio Files"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker {...itemProps.files} title="Files" allowMultipleSelection canChooseDirectories={false} />
+      <Form.Description
+        text={`Supported: ${IMPORT_FILE_EXTENSIONS.join(", ")}. Files are copied into the recordings folder and dated when they were recorded. M4A, AAC and video files are converted with FFmpeg.`}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,66 @@
+import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast, useForm } from "@raycast/utils";
+import { parseTags, saveRecordingMetadata } from "../utils/metadata";
+import { refreshHistoryEntry } from "../utils/historyIndex";
+import { formatDate } from "../utils/formatting";
+import { RecordingMetadata, TranscriptionFile } from "../types";
+
+interface RecordingDetailsFormValues {
+  title: string;
+  tags: string;
+  notes: string;
+  isFavorite: boolean;
+}
+
+export function RecordingDetailsForm({
+  file,
+  onSave,
+}: {
+  file: TranscriptionFile;
+  onSave: (file: TranscriptionFile, metadata: RecordingMetadata | undefined) => void;
+}) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<RecordingDetailsFormValues>({
+    onSubmit: async (values) => {
+      try {
+        const metadata = await saveRecordingMetadata(file.filePath, {
+          title: values.title,
+          tags: parseTags(values.tags),
+          notes: values.notes,
+          isFavorite: values.isFavorite,
+        });
+        await refreshHistoryEntry(file.filePath);
+
+        onSave(file, metadata);
+        await showToast({ style: Toast.Style.Success, title: "Details Saved", message: file.fileName });
+        pop();
+      } catch (error) {
+        console.error("Error saving recording details:", error);
+        await showFailureToast(error, { title: "Failed to Save Details" });
+      }
+    },
+    initialValues: {
+      title: file.metadata?.title ?? "",
+      tags: file.metadata?.tags?.join(", ") ?? "",
+      notes: file.metadata?.notes ?? "",
+      isFavorite: file.metadata?.isFavorite ?? false,
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle="Edit Details"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Details" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField {...itemProps.title} title="Title" placeholder={formatDate(file.recordedAt)} />
+      <Form.TextField {...itemProps.tags} title="Tags" placeholder="meeting, ideas" info="Separate tags with commas" />
+      <Form.TextArea {...itemProps.notes} title="Notes" placeholder="Anything worth remembering about this recording" />
+      <Form.Checkbox {...itemProps.isFavorite} label="Favorite" />
+    </Form>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { loadTranscription, restoreTranscriptionRevision } from "../utils/ai/transcription";
+import { diffWords, formatDiffMarkdown } from "../utils/diff";
+import { REVISION_SOURCE_TITLES, getRevisions } from "../utils/revisions";
+import { formatDate } from "../utils/formatting";
+import { TranscriptionFile, TranscriptionResult, TranscriptionRevision } from "../types";
+
+export function RevisionHistory({
+  file,
+  onRestore,
+}: {
+  file: TranscriptionFile;
+  onRestore: (file: TranscriptionFile, transcription: TranscriptionResult) => void;
+}) {
+  const { pop } = useNavigation();
+  const [revisions, setRevisions] = useState<TranscriptionRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparingWithCurrent, setIsComparingWithCurrent] = useState(false);
+
+  useEffect(() => {
+    loadTranscription(file.filePath)
+      .then((transcription) => setRevisions(getRevisions(transcription)))
+      .catch((error) => showFailureToast(error, { title: "Failed to Load Revisions" }))
+      .finally(() => setIsLoading(false));
+  }, [file.filePath]);
+
+  const currentRevision = revisions[revisions.length - 1];
+
+  const handleRestore = async (revision: TranscriptionRevision) => {
+    const confirmed = await confirmAlert({
+      title: "Restore This Version?",
+      message: "The current text is kept as a revision, so it can be restored later.",
+      primaryAction: { title: "Restore", style: Alert.ActionStyle.Default },
+    });
+    if (!confirmed) return;
+
+    try {
+      const transcription = await restoreTranscriptionRevision(file.filePath, revision.id);
+      onRestore(file, transcription);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Version Restored",
+        message: formatDate(new Date(revision.timestamp)),
+      });
+      pop();
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      await showFailureToast(error, { title: "Restore Failed" });
+    }
+  };
+
+  const getDiffMarkdown = (revision: TranscriptionRevision, index: number): string => {
+    if (isComparingWithCurrent) {
+      return revision === currentRevision
+        ? `# Current Version\n\n${revision.text}`
+        : `# Changes to the Current Version\n\n${formatDiffMarkdown(diffWords(revision.text, currentRevision.text))}`;
+    }
+
+    const previous = revisions[index - 1];
+    return previous
+      ? `# Changes from the Previous Version\n\n${formatDiffMarkdown(diffWords(previous.text, revision.text))}`
+      : `# First Version\n\n${revision.text}`;
+  };
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Revision History" isShowingDetail>
+      {revisions
+        .map((revision, index) => ({ revision, index }))
+        .reverse()
+        .map(({ revision, index }) => (
+          <List.Item
+            key={revision.id}
+            title={REVISION_SOURCE_TITLES[revision.source]}
+            subtitle={formatDate(new Date(revision.timestamp))}
+            accessories={revision === currentRevision ? [{ tag: { value: "Current", color: Color.Green } }] : []}
+            detail={
+              <List.Item.Detail
+                markdown={getDiffMarkdown(revision, index)}
+                metadata={
+                  <List.Item.Detail.Metadata>
+                    <List.Item.Detail.Metadata.Label
+                      title="Saved On"
+                      text={formatDate(new Date(revision.timestamp))}
+                      icon={{ source: Icon.Calendar, tintColor: Color.PrimaryText }}
+                    />
+                    {revision.model && (
+                      <List.Item.Detail.Metadata.Label
+                        title="Model"
+                        text={revision.model}
+                        icon={{ source: Icon.ComputerChip, tintColor: Color.PrimaryText }}
+                      />
+                    )}
+                    {revision.restoredFrom && (
+                      <List.Item.Detail.Metadata.Label
+                        title="Restored From"
+                        text={formatRestoredFrom(revisions, revision.restoredFrom)}
+                        icon={{ source: Icon.ArrowCounterClockwise, tintColor: Color.PrimaryText }}
+                      />
+                    )}
+                  </List.Item.Detail.Metadata>
+                }
+              />
+            }
+            actions={
+              <ActionPanel>
+                {revision !== currentRevision && (
+                  <Action
+                    title="Restore This Version"
+                    icon={Icon.ArrowCounterClockwise}
+                    onAction={() => handleRestore(revision)}
+                  />
+                )}
+                <Action
+                  title={isComparingWithCurrent ? "Compare with Previous Version" : "Compare with Current Version"}
+                  icon={Icon.Switch}
+                  onAction={() => setIsComparingWithCurrent(!isComparingWithCurrent)}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                />
+                <Action.CopyToClipboard
+                  title="Copy Text"
+                  content={revision.text}
+                  shortcut={{ modifiers: ["cmd"], key: "c" }}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+    </List>
+  );
+}
+
+function formatRestoredFrom(revisions: TranscriptionRevision[], revisionId: string): string {
+  const revision = revisions.find((candidate) => candidate.id === revisionId);
+  return revision
+    ? `${REVISION_SOURCE_TITLES[revision.source]} · ${formatDate(new Date(revision.timestamp))}`
+    : "Unknown";
+}
@@ -0,0 +1,50 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useAudioPlayer } from "../hooks/useAudioPlayer";
+import { formatTimestamp } from "../utils/formatting";
+import { TranscriptionFile, TranscriptionSegment } from "../types";
+
+export function SegmentList({ file, segments }: { file: TranscriptionFile; segments: TranscriptionSegment[] }) {
+  const { playback, play, stop } = useAudioPlayer();
+
+  // Playback carries on past the segment, only the one it started from is marked
+  const isPlayingSegment = (segment: TranscriptionSegment) => playback?.start === segment.start;
+
+  return (
+    <List navigationTitle={file.metadata?.title ?? file.fileName} searchBarPlaceholder="Search segments...">
+      {segments.map((segment) => (
+        <List.Item
+          key={segment.id}
+          icon={
+            isPlayingSegment(segment)
+              ? { source: Icon.SpeakerOn, tintColor: Color.Green }
+              : { source: Icon.Play, tintColor: Color.SecondaryText }
+          }
+          title={segment.text.trim()}
+          accessories={[{ text: formatTimestamp(segment.start) }]}
+          actions={
+            <ActionPanel>
+              {isPlayingSegment(segment) ? (
+                <Action title="Stop Playback" icon={Icon.Stop} onAction={stop} />
+              ) : (
+                <Action title="Play from Here" icon={Icon.Play} onAction={() => play(file.filePath, segment.start)} />
+              )}
+              {playback && !isPlayingSegment(segment) && (
+                <Action
+                  title="Stop Playback"
+                  icon={Icon.Stop}
+                  onAction={stop}
+                  shortcut={{ modifiers: ["cmd"], key: "p" }}
+                />
+              )}
+              <Action.CopyToClipboard
+                title="Copy Segment Text"
+                content={segment.text.trim()}
+                shortcut={{ modifiers: ["cmd"], key: "c" }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,73 @@
+import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast, useForm } from "@raycast/utils";
+import { createTemplateId, saveTemplate } from "../utils/templates";
+import { PostProcessingTemplate } from "../types";
+
+interface TemplateFormValues {
+  name: string;
+  prompt: string;
+}
+
+export function TemplateForm({
+  template,
+  onSave,
+}: {
+  template?: PostProcessingTemplate;
+  onSave: (templates: PostProcessingTemplate[]) => void;
+}) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<TemplateFormValues>({
+    onSubmit: async (values) => {
+      try {
+        const templates = await saveTemplate({
+          id: template?.id ?? createTemplateId(values.name),
+          name: values.name.trim(),
+          prompt: values.prompt.trim(),
+        });
+        onSave(templates);
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: template ? "Template Updated" : "Template Created",
+          message: values.name.trim(),
+        });
+        pop();
+      } catch (error) {
+        console.error("Error saving template:", error);
+        await showFailureToast(error, { title: "Failed to Save Template" });
+      }
+    },
+    initialValues: {
+      name: template?.name ?? "",
+      prompt: template?.prompt ?? "",
+    },
+    validation: {
+      name: (value) => {
+        if (!value?.trim()) return "Name is required";
+      },
+      prompt: (value) => {
+        if (!value?.trim()) return "Instructions are required";
+      },
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={template ? "Edit Template" : "Create Template"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Template" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField {...itemProps.name} title="Name" placeholder="Meeting Summary" />
+      <Form.TextArea
+        {...itemProps.prompt}
+        title="Instructions"
+        placeholder="Summarize the text as meeting minutes with decisions and action items."
+        info="How the model should rewrite the transcribed text"
+      />
+    </Form>
+  );
+}
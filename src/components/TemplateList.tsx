@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Action, ActionPanel, Alert, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { deleteTemplate, getTemplates, resetTemplates } from "../utils/templates";
+import { PostProcessingTemplate } from "../types";
+import { TemplateForm } from "./TemplateForm";
+
+export function TemplateList() {
+  const [templates, setTemplates] = useState<PostProcessingTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getTemplates()
+      .then(setTemplates)
+      .catch((error) => showFailureToast(error, { title: "Failed to Load Templates" }))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (template: PostProcessingTemplate) => {
+    const shouldDelete = await confirmAlert({
+      title: "Delete Template",
+      message: `Are you sure you want to delete "${template.name}"?`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+
+    if (!shouldDelete) return;
+
+    setTemplates(await deleteTemplate(template.id));
+    await showToast({ style: Toast.Style.Success, title: "Template Deleted", message: template.name });
+  };
+
+  const handleReset = async () => {
+    const shouldReset = await confirmAlert({
+      title: "Restore Default Templates",
+      message: "Your custom templates and edits will be removed.",
+      primaryAction: {
+        title: "Restore",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+
+    if (!shouldReset) return;
+
+    setTemplates(await resetTemplates());
+    await showToast({ style: Toast.Style.Success, title: "Default Templates Restored" });
+  };
+
+  const createAction = (
+    <Action.Push
+      title="Create Template"
+      icon={Icon.Plus}
+      target={<TemplateForm onSave={setTemplates} />}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} isShowingDetail searchBarPlaceholder="Search post-processing templates...">
+      <List.EmptyView
+        title="No Templates"
+        description="Create a template to rewrite transcriptions with an LLM"
+        actions={<ActionPanel>{createAction}</ActionPanel>}
+      />
+      {templates.map((template) => (
+        <List.Item
+          key={template.id}
+          title={template.name}
+          detail={<List.Item.Detail markdown={template.prompt} />}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Edit Template"
+                icon={Icon.Pencil}
+                target={<TemplateForm template={template} onSave={setTemplates} />}
+              />
+              {createAction}
+              <Action
+                title="Delete Template"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                onAction={() => handleDelete(template)}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              />
+              <Action title="Restore Default Templates" icon={Icon.ArrowCounterClockwise} onAction={handleReset} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
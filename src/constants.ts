@@ -6,13 +6,46 @@ import { Preferences } from "./types";
 const preferences = getPreferenceValues<Preferences>();
 export const DEFAULT_TEMP_DIR = path.join(os.homedir(), preferences.tempDirectory ?? ".raycast-speech-to-text-temp");
 
-export const RECORDING_FILE_FORMAT = "wav";
 export const RECORDING_SAMPLE_RATE = 16000; // 16kHz
 
+// Formats sox records to. bytesPerSecond is the rough size of a second of mono 16kHz audio,
+// used to estimate durations when sox isn't available
+export const RECORDING_FORMATS = [
+  { value: "wav", title: "WAV (Uncompressed)", bytesPerSecond: 32000 },
+  { value: "flac", title: "FLAC (Lossless)", bytesPerSecond: 16000 },
+  { value: "mp3", title: "MP3 (Smallest)", bytesPerSecond: 4000 },
+] as const;
+
+export const DEFAULT_RECORDING_FORMAT = "wav";
+
+// Extensions listed in history, recordings may have been made with different format settings
+export const AUDIO_FILE_EXTENSIONS = ["wav", "flac", "mp3", "ogg", "opus"] as const;
+
+// Files that can be imported into history, the ones not listed above are converted with FFmpeg
+export const IMPORT_FILE_EXTENSIONS = [...AUDIO_FILE_EXTENSIONS, "m4a", "aac", "mp4", "mov", "webm"] as const;
+
+export const TRANSCRIPTION_PROVIDERS = [
+  { id: "groq", name: "Groq" },
+  { id: "openai", name: "OpenAI-Compatible" },
+  { id: "local", name: "Local Whisper Server" },
+] as const;
+
+// Groq speech-to-text models
+// Prices are Groq's list prices in USD per minute of audio, used to estimate cost
 export const TRANSCRIPTION_MODELS = [
-  { id: "whisper-large-v3", name: "Whisper Large v3" },
-  { id: "whisper-large-v3-turbo", name: "Whisper Large v3 Turbo" },
-  { id: "distil-whisper-large-v3-en", name: "Distil Whisper" },
+  { id: "whisper-large-v3", name: "Whisper Large v3", supportsTranslation: true, pricePerMinute: 0.00185 },
+  {
+    id: "whisper-large-v3-turbo",
+    name: "Whisper Large v3 Turbo",
+    supportsTranslation: false,
+    pricePerMinute: 0.000667,
+  },
+  { id: "distil-whisper-large-v3-en", name: "Distil Whisper", supportsTranslation: false, pricePerMinute: 0.000333 },
+] as const;
+
+export const TRANSCRIPTION_MODES = [
+  { value: "transcribe", title: "Transcribe" },
+  { value: "translate", title: "Translate to English" },
 ] as const;
 
 // Available language options for transcription
@@ -30,6 +63,55 @@ export const LANGUAGE_OPTIONS = [
   { value: "ru", title: "Russian" },
 ] as const;
 
+export const EXPORT_FORMATS = [
+  { value: "srt", title: "SubRip Subtitles (.srt)" },
+  { value: "vtt", title: "WebVTT Subtitles (.vtt)" },
+  { value: "txt", title: "Text with Timestamps (.txt)" },
+  { value: "json", title: "JSON (.transcript.json)" },
+] as const;
+
+export const CUE_SPLIT_OPTIONS = [
+  { value: "lines", title: "Split Long Segments by Line Count" },
+  { value: "segment", title: "One Cue per Segment" },
+] as const;
+
+export const EXPORT_DEFAULTS = {
+  MAX_LINE_LENGTH: 42, // Common broadcast subtitle line limit
+  MAX_LINES_PER_CUE: 2,
+  SPLIT_MODE: "lines",
+} as const;
+
+export const DEFAULT_POST_PROCESSING_TEMPLATES = [
+  {
+    id: "clean-up",
+    name: "Clean Up Filler Words",
+    prompt:
+      "Remove filler words, false starts and repetitions. Fix punctuation and capitalization. Keep the original wording and meaning otherwise.",
+  },
+  {
+    id: "email",
+    name: "Format as Email",
+    prompt:
+      "Rewrite the text as a clear, polite email with a greeting, short paragraphs and a sign-off. Do not add a subject line or invent details.",
+  },
+  {
+    id: "bullet-notes",
+    name: "Bullet-Point Notes",
+    prompt:
+      "Turn the text into concise bullet-point notes, grouping related points and keeping every fact and action item.",
+  },
+  {
+    id: "commit-message",
+    name: "Commit Message",
+    prompt:
+      "Write a git commit message describing the change: an imperative subject line under 72 characters, a blank line, then a short body if needed.",
+  },
+] as const;
+
+// Wraps every template so the model only returns the rewritten text
+export const POST_PROCESSING_SYSTEM_PROMPT =
+  "You rewrite transcribed speech. Follow the user's instructions and reply with the rewritten text only, without any introduction, explanation or quotes.";
+
 /**
  * Builds a complete prompt from the separate components
  * @param promptText Custom prompt instructions
@@ -69,4 +151,113 @@ export const SOX_CONFIG = {
   BIT_DEPTH: 16, // 16-bit depth
   ENCODING: "signed-integer", // Signed integer encoding
   VERBOSE_LEVEL: 1, // Verbose level for better error reporting
+  INPUT_DRIVER: "coreaudio", // Driver used to open a named input device
+  FLAC_COMPRESSION: 8, // Highest FLAC compression level, still lossless
+  MP3_BITRATE_KBPS: 32, // Plenty for speech at 16kHz mono
+} as const;
+
+// Dropdown value for recording from the system's default input device
+export const DEFAULT_INPUT_DEVICE = "default";
+
+// Input level monitoring from sox's progress output
+export const LEVEL_METER_CONFIG = {
+  SEGMENTS: 10, // Characters in the text meter
+  NO_SIGNAL_SECONDS: 3, // Warn if nothing is heard this long after recording starts
+  SILENT_LEVEL: 0.05, // Levels at or below this count as no signal
+} as const;
+
+// Voice activity detection with sox's silence effect
+export const SILENCE_DEFAULTS = {
+  THRESHOLD_PERCENT: 1, // Amplitude below this is treated as silence
+  TIMEOUT_SECONDS: 2.5, // Silence that ends a recording
+  MIN_SOUND_SECONDS: 0.1, // Sound needed before a trimmed upload copy starts
+} as const;
+
+// Failed transcriptions are retried in the background with exponential backoff
+export const QUEUE_CONFIG = {
+  MAX_ATTEMPTS: 8,
+  BASE_DELAY_SECONDS: 30,
+  MAX_DELAY_SECONDS: 3600, // 1 hour
+} as const;
+
+// Long recordings are split into overlapping chunks before upload
+export const CHUNK_CONFIG = {
+  MAX_CHUNK_SECONDS: 600, // 10 minutes per chunk
+  OVERLAP_SECONDS: 5, // Audio shared between consecutive chunks
+  PROMPT_TAIL_CHARS: 200, // Previous chunk text passed as prompt
+  SIZE_SAFETY_RATIO: 0.9, // Keep chunks below the provider upload limit
+} as const;
+
+// On-disk cache of the history list, checked against file modification times
+export const HISTORY_INDEX_CONFIG = {
+  FILE_NAME: ".history-index.json",
+  VERSION: 4, // Bump when the entry shape changes so old indexes are rebuilt
+} as const;
+
+// Picked in the history dropdown, or typed in the search as "date:" and the title, e.g. "date:last-week"
+export const HISTORY_DATE_FILTERS = [
+  { value: "today", title: "Today" },
+  { value: "week", title: "This Week" },
+  { value: "lastWeek", title: "Last Week" },
+  { value: "month", title: "This Month" },
+] as const;
+
+export const HISTORY_SORT_OPTIONS = [
+  { value: "date", title: "Date" },
+  { value: "duration", title: "Duration" },
+  { value: "wordCount", title: "Word Count" },
+] as const;
+
+// Deleting old audio to stay within the retention preferences
+export const RETENTION_CONFIG = {
+  RECENTLY_MODIFIED_SECONDS: 15, // Files modified more recently may still be written, e.g. while imported
+} as const;
+
+// Rolling chunks transcribed while recording
+export const LIVE_TRANSCRIPTION_CONFIG = {
+  CHUNK_SECONDS: 12, // How often new audio is sent
+  OVERLAP_SECONDS: 1.5, // Audio repeated from the previous chunk so words at the cut aren't lost
+  MIN_CHUNK_SECONDS: 2, // Shorter leftovers wait for the next chunk
+} as const;
+
+// Sox effect chains applied before upload, in order: resample, high-pass, noise reduction, normalisation
+export const PREPROCESSING_PRESETS = [
+  {
+    id: "light-cleanup",
+    name: "Light Cleanup",
+    description: "Removes low rumble and evens out the volume",
+    highPassHz: 80,
+    normalizeDb: -1,
+  },
+  {
+    id: "noisy-room",
+    name: "Noisy Room",
+    description: "Also reduces background noise using your recorded noise profile",
+    resample: true,
+    highPassHz: 100,
+    noiseReduction: 0.21,
+    normalizeDb: -1,
+  },
+  {
+    id: "resample",
+    name: "Resample to 16 kHz Mono",
+    description: "Converts to the sample rate Whisper uses, making uploads smaller",
+    resample: true,
+  },
+] as const;
+
+export const PREPROCESSING_CONFIG = {
+  NOISE_PROFILE_SECONDS: 3, // Room tone recorded for noise reduction
+  FILE_SUFFIX: "preprocessed", // recording-x.preprocessed.wav sits next to recording-x.wav
+} as const;
+
+// Markdown notes written to a notes folder such as an Obsidian vault
+export const NOTES_CONFIG = {
+  DEFAULT_FILENAME_TEMPLATE: "{date} {time} {title}",
+  UNTITLED_NAME: "Recording", // Used for {title} when a recording has no title
+} as const;
+
+export const STATS_CONFIG = {
+  WEEKS_SHOWN: 8, // Weekly breakdown, current week included
+  MONTHS_SHOWN: 6, // Monthly cost breakdown, current month included
 } as const;
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef } from "react";
+import { ChildProcess, spawn } from "child_process";
+import { showFailureToast } from "@raycast/utils";
+import { buildPlaybackCommand, checkSoxInstalled } from "../utils/audio";
+import { ErrorTypes } from "../types";
+
+interface Playback {
+  filePath: string;
+  start: number;
+}
+
+interface AudioPlayerHook {
+  playback: Playback | null;
+  play: (filePath: string, start?: number) => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Plays recordings through sox, one at a time. Playback stops when the view using the hook closes.
+ */
+export function useAudioPlayer(): AudioPlayerHook {
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const playerProcess = useRef<ChildProcess | null>(null);
+
+  useEffect(() => {
+    return () => {
+      playerProcess.current?.kill();
+      playerProcess.current = null;
+    };
+  }, []);
+
+  const stop = () => {
+    playerProcess.current?.kill();
+    playerProcess.current = null;
+    setPlayback(null);
+  };
+
+  const play = async (filePath: string, start = 0) => {
+    stop();
+
+    const soxPath = await checkSoxInstalled();
+    if (!soxPath) {
+      await showFailureToast(ErrorTypes.SOX_NOT_INSTALLED, { title: "Playback Failed" });
+      return;
+    }
+
+    const soxProcess = spawn(soxPath, buildPlaybackCommand(filePath, start));
+    playerProcess.current = soxProcess;
+    setPlayback({ filePath, start });
+
+    soxProcess.stderr?.on("data", (data) => {
+      console.error(`Sox stderr: ${data}`);
+    });
+
+    soxProcess.on("error", (error) => {
+      console.error(`Sox playback error: ${error.message}`);
+      showFailureToast(error, { title: "Playback Failed" });
+    });
+
+    // Only the current process clears the state, a stopped one may close after the next one started
+    soxProcess.on("close", () => {
+      if (playerProcess.current === soxProcess) {
+        playerProcess.current = null;
+        setPlayback(null);
+      }
+    });
+  };
+
+  return { playback, play, stop };
+}
@@ -1,33 +1,74 @@
 import { useState, useEffect, useRef } from "react";
 import { ChildProcess, spawn } from "child_process";
+import fs from "fs-extra";
+import path from "path";
 import {
   generateAudioFilename,
   ensureTempDirectory,
   checkSoxInstalled,
   buildSoxCommand,
   validateAudioFile,
+  getSilenceSettings,
+  concatenateAudioFiles,
+  getSegmentDirectory,
+  getLiveChunkDirectory,
+  parseSoxLevel,
 } from "../utils/audio";
+import { extractWavRange, getWavDataDuration } from "../utils/wav";
+import { assertInputDeviceAvailable } from "../utils/inputDevices";
+import { refreshHistoryEntry } from "../utils/historyIndex";
+import { lockRecording, unlockRecording } from "../utils/recovery";
 import { showToast, Toast } from "@raycast/api";
 import { showFailureToast } from "@raycast/utils";
-import { ErrorTypes } from "../types";
+import { AudioChunk, ErrorTypes } from "../types";
+import { DEFAULT_INPUT_DEVICE, LEVEL_METER_CONFIG, LIVE_TRANSCRIPTION_CONFIG } from "../constants";
+
+interface AudioRecorderOptions {
+  // Called when sox ends the recording by itself after a stretch of silence
+  onAutoStop?: () => void;
+  // Called with rolling chunks of the audio recorded so far, only for WAV recordings
+  onLiveChunk?: (chunk: AudioChunk) => void;
+}
+
+interface LiveSource {
+  // Segment currently being written and how far into it chunks have been sent
+  filePath: string;
+  position: number;
+}
 
 interface AudioRecorderHook {
   isRecording: boolean;
+  isPaused: boolean;
+  inputLevel: number;
   recordingDuration: number;
   recordingPath: string | null;
   error: string | null;
-  startRecording: () => Promise<string | null>;
+  startRecording: (inputDevice?: string) => Promise<string | null>;
+  pauseRecording: () => Promise<void>;
+  resumeRecording: () => Promise<void>;
   stopRecording: () => Promise<string | null>;
 }
 
-export function useAudioRecorder(): AudioRecorderHook {
+export function useAudioRecorder(options: AudioRecorderOptions = {}): AudioRecorderHook {
   const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [inputLevel, setInputLevel] = useState<number>(0);
   const [recordingDuration, setRecordingDuration] = useState<number>(0);
   const [recordingPath, setRecordingPath] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const recordingProcess = useRef<ChildProcess | null>(null);
   const durationInterval = useRef<NodeJS.Timeout | null>(null);
+  const segmentPaths = useRef<string[]>([]);
+  const peakLevel = useRef<number>(0);
+  const noSignalTimeout = useRef<NodeJS.Timeout | null>(null);
+  const isStopRequested = useRef<boolean>(false);
+  const inputDeviceRef = useRef<string>(DEFAULT_INPUT_DEVICE);
+  const liveInterval = useRef<NodeJS.Timeout | null>(null);
+  const liveSource = useRef<LiveSource | null>(null);
+  const liveChunkCount = useRef<number>(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
   useEffect(() => {
     const checkSox = async () => {
@@ -39,12 +80,161 @@ export function useAudioRecorder(): AudioRecorderHook {
 
     checkSox();
 
+    // Runs once on unmount, so it reads refs rather than the state captured by the first render.
+    // Stopping sox lets it write the WAV header, the recording can then be transcribed from history.
+    // The lock is released once sox has exited, so history doesn't see the file while the header is written.
     return () => {
-      if (isRecording) void stopRecording();
+      const soxProcess = recordingProcess.current;
+      const lockedPath = segmentPaths.current[0];
+
+      isStopRequested.current = true;
+      if (lockedPath) {
+        if (soxProcess && soxProcess.exitCode === null && soxProcess.signalCode === null) {
+          soxProcess.once("close", () => void unlockRecording(lockedPath));
+        } else {
+          void unlockRecording(lockedPath);
+        }
+      }
+      soxProcess?.kill();
+      recordingProcess.current = null;
+      stopDurationTimer();
+      stopSignalCheck();
+      stopLiveChunks();
     };
   }, []);
 
-  const startRecording = async (): Promise<string | null> => {
+  const stopDurationTimer = () => {
+    if (durationInterval.current) {
+      clearInterval(durationInterval.current);
+      durationInterval.current = null;
+    }
+  };
+
+  const startDurationTimer = () => {
+    stopDurationTimer();
+    durationInterval.current = setInterval(() => {
+      setRecordingDuration((prev) => prev + 1);
+    }, 1000);
+  };
+
+  const stopSignalCheck = () => {
+    if (noSignalTimeout.current) {
+      clearTimeout(noSignalTimeout.current);
+      noSignalTimeout.current = null;
+    }
+    setInputLevel(0);
+  };
+
+  // Warns when nothing is heard shortly after recording starts, usually a muted or wrong microphone
+  const startSignalCheck = () => {
+    stopSignalCheck();
+    peakLevel.current = 0;
+
+    noSignalTimeout.current = setTimeout(() => {
+      noSignalTimeout.current = null;
+      if (recordingProcess.current && peakLevel.current <= LEVEL_METER_CONFIG.SILENT_LEVEL) {
+        void showToast({
+          style: Toast.Style.Failure,
+          title: "No input signal",
+          message: "Check that your microphone isn't muted and the right input device is selected",
+        });
+      }
+    }, LEVEL_METER_CONFIG.NO_SIGNAL_SECONDS * 1000);
+  };
+
+  const stopLiveChunks = () => {
+    if (liveInterval.current) {
+      clearInterval(liveInterval.current);
+      liveInterval.current = null;
+    }
+  };
+
+  // Copies the audio written since the last chunk, with a little overlap, and hands it to onLiveChunk
+  const emitLiveChunk = async (recordingFilePath: string, minSeconds: number) => {
+    const source = liveSource.current;
+    const onLiveChunk = optionsRef.current.onLiveChunk;
+    if (!source || !onLiveChunk) return;
+
+    try {
+      const available = await getWavDataDuration(source.filePath);
+      if (available === null || available - source.position < minSeconds) return;
+
+      const chunkDirectory = getLiveChunkDirectory(recordingFilePath);
+      await fs.ensureDir(chunkDirectory);
+
+      liveChunkCount.current += 1;
+      const chunkPath = path.join(chunkDirectory, `live-${String(liveChunkCount.current).padStart(3, "0")}.wav`);
+      const start = Math.max(0, source.position - LIVE_TRANSCRIPTION_CONFIG.OVERLAP_SECONDS);
+
+      const chunk = await extractWavRange(source.filePath, chunkPath, start, available);
+      source.position = available;
+
+      if (chunk) onLiveChunk(chunk);
+    } catch (error) {
+      console.error("Error extracting live chunk:", error);
+    }
+  };
+
+  const startLiveChunks = (recordingFilePath: string, segmentPath: string) => {
+    stopLiveChunks();
+    if (!optionsRef.current.onLiveChunk || path.extname(segmentPath) !== ".wav") return;
+
+    liveSource.current = { filePath: segmentPath, position: 0 };
+    liveInterval.current = setInterval(() => {
+      void emitLiveChunk(recordingFilePath, LIVE_TRANSCRIPTION_CONFIG.MIN_CHUNK_SECONDS);
+    }, LIVE_TRANSCRIPTION_CONFIG.CHUNK_SECONDS * 1000);
+  };
+
+  const spawnRecorder = (soxPath: string, outputPath: string) => {
+    const silenceSettings = getSilenceSettings();
+    isStopRequested.current = false;
+
+    console.log("Starting recording with Sox");
+    const soxProcess = spawn(soxPath, buildSoxCommand(outputPath, silenceSettings, inputDeviceRef.current));
+    recordingProcess.current = soxProcess;
+
+    soxProcess.stdout?.on("data", (data) => {
+      console.log(`Sox stdout: ${data}`);
+    });
+
+    soxProcess.stderr?.on("data", (data) => {
+      const level = parseSoxLevel(data.toString());
+      if (level === null) {
+        console.error(`Sox stderr: ${data}`);
+        return;
+      }
+
+      peakLevel.current = Math.max(peakLevel.current, level);
+      setInputLevel(level);
+    });
+
+    soxProcess.on("error", (error) => {
+      console.error(`Sox process error: ${error.message}`);
+      setError(`${ErrorTypes.RECORDING_PROCESS_ERROR}: ${error.message}`);
+      stopDurationTimer();
+      stopSignalCheck();
+      setIsRecording(false);
+    });
+
+    soxProcess.on("close", (code) => {
+      console.log(`Sox process exited with code ${code}`);
+
+      // sox exits cleanly on its own only when the silence effect ends the recording
+      if (code === 0 && silenceSettings.autoStop && !isStopRequested.current) {
+        optionsRef.current.onAutoStop?.();
+        return;
+      }
+
+      if (code !== 0 && !isStopRequested.current) {
+        setError(`Recording process exited unexpectedly with code ${code}`);
+        stopDurationTimer();
+        stopSignalCheck();
+        setIsRecording(false);
+      }
+    });
+  };
+
+  const startRecording = async (inputDevice: string = DEFAULT_INPUT_DEVICE): Promise<string | null> => {
     setError(null);
 
     if (isRecording) {
@@ -62,77 +252,121 @@ export function useAudioRecorder(): AudioRecorderHook {
     }
 
     try {
+      await assertInputDeviceAvailable(inputDevice);
+      // Resumed segments are recorded from the same device
+      inputDeviceRef.current = inputDevice;
+
       const tempDir = await ensureTempDirectory();
       const outputPath = generateAudioFilename(tempDir);
       console.log("Recording to file:", outputPath);
       setRecordingPath(outputPath);
 
-      console.log("Starting recording with Sox");
-      recordingProcess.current = spawn(soxPath, buildSoxCommand(outputPath));
+      // The first segment is written straight to the recording file, resumed segments are joined to it on stop
+      segmentPaths.current = [outputPath];
+      await lockRecording(outputPath);
+      spawnRecorder(soxPath, outputPath);
+      startSignalCheck();
+      liveChunkCount.current = 0;
+      startLiveChunks(outputPath, outputPath);
 
-      recordingProcess.current.stdout?.on("data", (data) => {
-        console.log(`Sox stdout: ${data}`);
+      setRecordingDuration(0);
+      startDurationTimer();
+
+      setIsPaused(false);
+      setIsRecording(true);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Recording started",
       });
 
-      recordingProcess.current.stderr?.on("data", (data) => {
-        console.error(`Sox stderr: ${data}`);
+      return outputPath;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("Error starting recording:", error);
+
+      await showFailureToast(error, {
+        title: "Failed to start recording",
       });
 
-      recordingProcess.current?.on("error", (error) => {
-        console.error(`Sox process error: ${error.message}`);
-        setError(`${ErrorTypes.RECORDING_PROCESS_ERROR}: ${error.message}`);
+      setError(`${ErrorTypes.RECORDING_START_ERROR}: ${errorMessage}`);
+      return null;
+    }
+  };
 
-        if (durationInterval.current) {
-          clearInterval(durationInterval.current);
-          durationInterval.current = null;
-        }
+  const pauseRecording = async (): Promise<void> => {
+    if (!isRecording || isPaused || !recordingProcess.current) {
+      return;
+    }
 
-        setIsRecording(false);
-      });
+    isStopRequested.current = true;
+    recordingProcess.current.kill();
+    recordingProcess.current = null;
 
-      recordingProcess.current?.on("close", (code) => {
-        console.log(`Sox process exited with code ${code}`);
+    stopDurationTimer();
+    stopSignalCheck();
+    stopLiveChunks();
+    setIsPaused(true);
 
-        if (code !== 0 && isRecording) {
-          setError(`Recording process exited unexpectedly with code ${code}`);
+    // Send what was said since the last chunk, so the live text is complete while paused
+    if (recordingPath) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await emitLiveChunk(recordingPath, LIVE_TRANSCRIPTION_CONFIG.MIN_CHUNK_SECONDS);
+    }
 
-          if (durationInterval.current) {
-            clearInterval(durationInterval.current);
-            durationInterval.current = null;
-          }
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Recording paused",
+    });
+  };
 
-          setIsRecording(false);
-        }
-      });
+  const resumeRecording = async (): Promise<void> => {
+    if (!isRecording || !isPaused || !recordingPath) {
+      return;
+    }
 
-      setRecordingDuration(0);
-      durationInterval.current = setInterval(() => {
-        setRecordingDuration((prev) => prev + 1);
-      }, 1000);
+    const soxPath = await checkSoxInstalled();
+    if (!soxPath) {
+      setError(ErrorTypes.SOX_NOT_INSTALLED);
+      return;
+    }
 
-      setIsRecording(true);
+    try {
+      await assertInputDeviceAvailable(inputDeviceRef.current);
+
+      const segmentDirectory = getSegmentDirectory(recordingPath);
+      await fs.ensureDir(segmentDirectory);
+
+      const segmentPath = path.join(
+        segmentDirectory,
+        `segment-${String(segmentPaths.current.length + 1).padStart(3, "0")}${path.extname(recordingPath)}`,
+      );
+      segmentPaths.current.push(segmentPath);
+      spawnRecorder(soxPath, segmentPath);
+      startSignalCheck();
+      startLiveChunks(recordingPath, segmentPath);
+
+      startDurationTimer();
+      setIsPaused(false);
 
       await showToast({
         style: Toast.Style.Success,
-        title: "Recording started",
+        title: "Recording resumed",
       });
-
-      return outputPath;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("Error starting recording:", error);
+      console.error("Error resuming recording:", error);
 
       await showFailureToast(error, {
-        title: "Failed to start recording",
+        title: "Failed to resume recording",
       });
 
       setError(`${ErrorTypes.RECORDING_START_ERROR}: ${errorMessage}`);
-      return null;
     }
   };
 
   const stopRecording = async (): Promise<string | null> => {
-    if (!isRecording || !recordingProcess.current) {
+    if (!isRecording || (!recordingProcess.current && !isPaused)) {
       return null;
     }
 
@@ -140,19 +374,30 @@ export function useAudioRecorder(): AudioRecorderHook {
     console.log("Stopping recording, current path:", currentRecordingPath);
 
     try {
-      recordingProcess.current.kill();
+      isStopRequested.current = true;
+      recordingProcess.current?.kill();
       recordingProcess.current = null;
 
-      if (durationInterval.current) {
-        clearInterval(durationInterval.current);
-        durationInterval.current = null;
-      }
+      stopDurationTimer();
+      stopSignalCheck();
+      stopLiveChunks();
+      liveSource.current = null;
 
       setIsRecording(false);
+      setIsPaused(false);
 
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       if (currentRecordingPath) {
+        // The whole recording is transcribed once stopped, so the live chunks aren't needed anymore
+        await fs.remove(getLiveChunkDirectory(currentRecordingPath));
+
+        if (segmentPaths.current.length > 1) {
+          await concatenateAudioFiles(segmentPaths.current);
+          await fs.remove(getSegmentDirectory(currentRecordingPath));
+        }
+        segmentPaths.current = [];
+
         const validationResult = await validateAudioFile(currentRecordingPath);
 
         if (!validationResult.isValid) {
@@ -164,6 +409,8 @@ export function useAudioRecorder(): AudioRecorderHook {
           return null;
         }
 
+        await refreshHistoryEntry(currentRecordingPath);
+
         await showToast({
           style: Toast.Style.Success,
           title: "Recording stopped",
@@ -192,15 +439,24 @@ export function useAudioRecorder(): AudioRecorderHook {
       setError(`${ErrorTypes.RECORDING_STOP_ERROR}: ${errorMessage}`);
       setIsRecording(false);
       return null;
+    } finally {
+      // A recording that couldn't be finished shows up in history to be recovered
+      if (currentRecordingPath) {
+        await unlockRecording(currentRecordingPath);
+      }
     }
   };
 
   return {
     isRecording,
+    isPaused,
+    inputLevel,
     recordingDuration,
     recordingPath,
     error,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
   };
 }
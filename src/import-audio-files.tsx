@@ -0,0 +1,5 @@
+import { ImportForm } from "./components/ImportForm";
+
+export default function Command() {
+  return <ImportForm />;
+}
@@ -0,0 +1,5 @@
+import { TemplateList } from "./components/TemplateList";
+
+export default function Command() {
+  return <TemplateList />;
+}
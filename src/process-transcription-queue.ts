@@ -0,0 +1,21 @@
+import { environment, LaunchType, showHUD } from "@raycast/api";
+import { processQueue } from "./utils/queue";
+
+export default async function Command() {
+  const { succeeded, failed, overBudget } = await processQueue();
+
+  // Only report back when the user ran the command themselves
+  if (environment.launchType !== LaunchType.UserInitiated) return;
+
+  if (overBudget > 0) {
+    await showHUD(
+      `Monthly budget exceeded, ${overBudget} queued ${overBudget === 1 ? "recording is" : "recordings are"} waiting`,
+    );
+  } else {
+    await showHUD(
+      succeeded + failed === 0
+        ? "No queued transcriptions are due"
+        : `Transcribed ${succeeded} queued ${succeeded === 1 ? "recording" : "recordings"}${failed > 0 ? `, ${failed} failed` : ""}`,
+    );
+  }
+}
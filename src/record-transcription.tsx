@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   Action,
   ActionPanel,
@@ -9,27 +9,82 @@ import {
   open,
   getPreferenceValues,
   getSelectedText,
+  Icon,
 } from "@raycast/api";
 import { useForm, showFailureToast } from "@raycast/utils";
 import { transcribeAudio } from "./utils/ai/transcription";
+import { postProcessTranscription } from "./utils/ai/postProcessing";
+import { isRetryableError } from "./utils/ai/errors";
+import { removeTextOverlap } from "./utils/ai/chunking";
+import { enqueueTranscription } from "./utils/queue";
+import { exportNote, getNotesSettings } from "./utils/notes";
+import { confirmWithinBudget, getBudgetStatus } from "./utils/usage";
+import { getLastUsedTemplateId, getTemplates, setLastUsedTemplateId } from "./utils/templates";
+import {
+  getLastInputDevice,
+  getPreferredInputDevice,
+  listInputDevices,
+  setLastInputDevice,
+} from "./utils/inputDevices";
+import { TemplateList } from "./components/TemplateList";
 import { useAudioRecorder } from "./hooks/useAudioRecorder";
-import { Preferences, TranscriptionModelId } from "./types";
-import { LANGUAGE_OPTIONS, TRANSCRIPTION_MODELS } from "./constants";
+import { getRecordingFormat, getSilenceSettings } from "./utils/audio";
+import { findInterruptedRecordings } from "./utils/recovery";
+import { getPreprocessingPreset, getPreprocessingPresets, recordNoiseProfile } from "./utils/preprocessing";
+import { formatLevelMeter } from "./utils/formatting";
+import { getProvider, getProviderModels, resolveProviderModel } from "./utils/ai/providers";
+import {
+  AudioChunk,
+  InputDevice,
+  PostProcessingTemplate,
+  Preferences,
+  QueueJobSettings,
+  TranscriptionMode,
+  TranscriptionModelId,
+  TranscriptionProviderId,
+} from "./types";
+import {
+  DEFAULT_INPUT_DEVICE,
+  LANGUAGE_OPTIONS,
+  LEVEL_METER_CONFIG,
+  TRANSCRIPTION_MODES,
+  TRANSCRIPTION_PROVIDERS,
+  buildCompletePrompt,
+} from "./constants";
 
 interface TranscriptFormValues {
   transcription: string;
+  mode: TranscriptionMode;
   language: string;
+  provider: TranscriptionProviderId;
   model: TranscriptionModelId;
   promptText: string;
   userTerms: string;
   useContext: boolean;
+  liveTranscription: boolean;
+  templateId: string;
+  preprocessingPresetId: string;
+  inputDevice: string;
 }
 
+const NO_TEMPLATE = "none";
+const NO_PREPROCESSING = "none";
+
 export default function Command() {
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [templates, setTemplates] = useState<PostProcessingTemplate[]>([]);
+  const [inputDevices, setInputDevices] = useState<InputDevice[]>([]);
   const preferences = getPreferenceValues<Preferences>();
 
-  const { isRecording, recordingDuration, error, startRecording, stopRecording } = useAudioRecorder();
+  const silenceSettings = getSilenceSettings();
+  // Live chunks are cut from the WAV file while sox is still writing it
+  const canTranscribeLive = getRecordingFormat() === "wav";
+
+  const liveText = useRef("");
+  const liveSession = useRef(0);
+  const liveQueue = useRef<Promise<void>>(Promise.resolve());
+  const hasShownLiveError = useRef(false);
+  const isLiveOverBudget = useRef(false);
 
   const { handleSubmit, itemProps, setValue, values } = useForm<TranscriptFormValues>({
     onSubmit: (values) => {
@@ -41,30 +96,156 @@ export default function Command() {
     },
     initialValues: {
       transcription: "",
+      mode: preferences.mode ?? "transcribe",
       language: preferences.language ?? "",
-      model: preferences.model,
+      provider: preferences.provider ?? "groq",
+      model: resolveProviderModel(preferences.provider, undefined, preferences.mode),
       promptText: preferences.promptText ?? "",
       userTerms: preferences.userTerms ?? "",
       useContext: preferences.enableContext ?? true,
+      liveTranscription: preferences.liveTranscription ?? false,
+      templateId: NO_TEMPLATE,
+      preprocessingPresetId: getPreprocessingPreset(preferences.preprocessingPreset)?.id ?? NO_PREPROCESSING,
+      inputDevice: getPreferredInputDevice(),
     },
   });
 
+  const {
+    isRecording,
+    isPaused,
+    inputLevel,
+    recordingDuration,
+    error,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+  } = useAudioRecorder({
+    onAutoStop: () => void handleStopRecording(),
+    onLiveChunk: canTranscribeLive && values.liveTranscription ? (chunk) => handleLiveChunk(chunk) : undefined,
+  });
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const [storedTemplates, lastUsedTemplateId] = await Promise.all([getTemplates(), getLastUsedTemplateId()]);
+      setTemplates(storedTemplates);
+      if (lastUsedTemplateId && storedTemplates.some((template) => template.id === lastUsedTemplateId)) {
+        setValue("templateId", lastUsedTemplateId);
+      }
+    };
+
+    void loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    const loadInputDevices = async () => {
+      const [devices, lastInputDevice] = await Promise.all([listInputDevices(), getLastInputDevice()]);
+      setInputDevices(devices);
+      if (
+        lastInputDevice &&
+        (lastInputDevice === DEFAULT_INPUT_DEVICE || devices.some((device) => device.name === lastInputDevice))
+      ) {
+        setValue("inputDevice", lastInputDevice);
+      }
+    };
+
+    void loadInputDevices();
+  }, []);
+
+  useEffect(() => {
+    const checkInterruptedRecordings = async () => {
+      let interrupted: string[] = [];
+      try {
+        interrupted = await findInterruptedRecordings();
+      } catch (error) {
+        console.error("Error checking for interrupted recordings:", error);
+      }
+      if (interrupted.length === 0) return;
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: interrupted.length === 1 ? "Interrupted recording found" : "Interrupted recordings found",
+        message: "Recover and transcribe them from history",
+        primaryAction: {
+          title: "View History",
+          onAction: () => open("raycast://extensions/facundo_prieto/speech-to-text/transcription-history"),
+        },
+      });
+    };
+
+    void checkInterruptedRecordings();
+  }, []);
+
+  // Chunks are transcribed one at a time so their text is appended in order. They go straight to the provider:
+  // the text is only a preview, so nothing is saved to history or counted as usage until the final transcription.
+  const handleLiveChunk = (chunk: AudioChunk) => {
+    const session = liveSession.current;
+
+    liveQueue.current = liveQueue.current.then(async () => {
+      if (session !== liveSession.current || isLiveOverBudget.current) return;
+
+      try {
+        const provider = getProvider(values.provider);
+        const prompt = buildCompletePrompt(values.promptText, values.userTerms);
+        const result = await provider.transcribe({
+          filePath: chunk.filePath,
+          mode: values.mode,
+          model: resolveProviderModel(provider.id, values.model, values.mode),
+          language: values.language && values.language !== "auto" ? values.language : undefined,
+          prompt: provider.capabilities.prompt && prompt.trim() !== "" ? prompt : undefined,
+        });
+
+        // The recording may have stopped while this chunk was uploading
+        if (session !== liveSession.current) return;
+
+        const newText = liveText.current === "" ? result.text.trim() : removeTextOverlap(liveText.current, result.text);
+        liveText.current = `${liveText.current} ${newText}`.trim();
+        setValue("transcription", liveText.current);
+      } catch (error) {
+        console.error("Live transcription error:", error);
+
+        if (!hasShownLiveError.current) {
+          hasShownLiveError.current = true;
+          await showFailureToast(error, {
+            title: "Live transcription failed",
+            message: "Recording continues, the full recording is transcribed when you stop",
+          });
+        }
+      }
+    });
+  };
+
   const handleStopRecording = async () => {
+    // Drop live chunks still in flight, the full transcription replaces their text
+    liveSession.current += 1;
     const recordingFilePath = await stopRecording();
 
     if (recordingFilePath) {
+      let queueSettings: QueueJobSettings | null = null;
+
       try {
         setIsTranscribing(true);
 
+        if (!(await confirmWithinBudget())) {
+          await showToast({
+            style: Toast.Style.Success,
+            title: "Recording saved",
+            message: "Transcribe it from history when you're ready",
+          });
+          return;
+        }
+
         const languageTitle =
           values.language === "auto"
             ? "Auto-detect"
             : (LANGUAGE_OPTIONS.find((option) => option.value === values.language)?.title ?? "Auto-detect");
 
-        await showToast({
+        const statusMessage = values.mode === "translate" ? "Translating to English" : `Language: ${languageTitle}`;
+
+        const toast = await showToast({
           style: Toast.Style.Animated,
-          title: "Transcribing...",
-          message: `Language: ${languageTitle}`,
+          title: values.mode === "translate" ? "Translating..." : "Transcribing...",
+          message: statusMessage,
         });
 
         let selection = "";
@@ -74,38 +255,133 @@ export default function Command() {
           console.error("Error getting selected text:", error);
         }
 
+        queueSettings = {
+          language: values.language,
+          prompt: buildCompletePrompt(values.promptText, values.userTerms, values.useContext ? selection : undefined),
+          model: values.model,
+          provider: values.provider,
+          mode: values.mode,
+          templateId: values.templateId !== NO_TEMPLATE ? values.templateId : undefined,
+          preprocessingPresetId:
+            values.preprocessingPresetId !== NO_PREPROCESSING ? values.preprocessingPresetId : undefined,
+        };
+
         const result = await transcribeAudio(recordingFilePath, {
-          overrideLanguage: values.language,
-          overrideModel: values.model,
-          promptOptions: {
-            promptText: values.promptText,
-            userTerms: values.userTerms,
-            highlightedText: values.useContext ? selection : undefined,
+          overrideLanguage: queueSettings.language,
+          overridePrompt: queueSettings.prompt,
+          overrideModel: queueSettings.model,
+          overrideProvider: queueSettings.provider,
+          mode: queueSettings.mode,
+          preprocessingPresetId: queueSettings.preprocessingPresetId,
+          onProgress: ({ chunk, totalChunks }) => {
+            toast.message = `Chunk ${chunk}/${totalChunks} · ${statusMessage}`;
           },
         });
         setValue("transcription", result.text);
 
-        await Clipboard.copy(result.text);
+        let finalResult = result;
+        const template = templates.find((template) => template.id === values.templateId);
+        await setLastUsedTemplateId(values.templateId);
+
+        if (template) {
+          try {
+            toast.title = "Post-processing...";
+            toast.message = template.name;
+
+            finalResult = await postProcessTranscription(recordingFilePath, result, template);
+            setValue("transcription", finalResult.postProcessing?.text ?? result.text);
+          } catch (error) {
+            console.error("Post-processing error:", error);
+            await showFailureToast(error, {
+              title: "Post-processing failed",
+              message: "The raw transcription was kept",
+            });
+          }
+        }
+
+        await Clipboard.copy(finalResult.postProcessing?.text ?? finalResult.text);
+
+        let message = "Text copied to clipboard";
+        const notesSettings = getNotesSettings();
+        if (notesSettings.autoExport && notesSettings.folder) {
+          try {
+            await exportNote(recordingFilePath, finalResult, notesSettings);
+            message = "Text copied to clipboard and saved to notes";
+          } catch (error) {
+            // The transcription itself succeeded, it can be exported again from history
+            console.error("Note export error:", error);
+            message = "Text copied to clipboard, saving to notes failed";
+          }
+        }
 
         await showToast({
           style: Toast.Style.Success,
           title: "Transcription complete",
-          message: "Text copied to clipboard",
+          message,
         });
       } catch (error) {
         console.error("Transcription error:", error);
-        await showFailureToast(error, {
-          title: "Transcription failed",
-        });
+
+        if (queueSettings && isRetryableError(error)) {
+          await enqueueTranscription(recordingFilePath, queueSettings, error);
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Transcription queued",
+            message: "It will be retried automatically, check its status in history",
+          });
+        } else {
+          await showFailureToast(error, {
+            title: "Transcription failed",
+          });
+        }
       } finally {
         setIsTranscribing(false);
       }
     }
   };
 
-  const handleNewRecording = () => {
+  const handleRecordNoiseProfile = async () => {
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Recording noise profile...",
+      message: "Stay quiet for a few seconds",
+    });
+
+    try {
+      await recordNoiseProfile(values.inputDevice);
+      toast.style = Toast.Style.Success;
+      toast.title = "Noise profile saved";
+      toast.message = "Used by presets with noise reduction";
+    } catch (error) {
+      console.error("Noise profile error:", error);
+      await showFailureToast(error, { title: "Failed to record noise profile" });
+    }
+  };
+
+  const handleNewRecording = async () => {
+    // Live chunks would run up the bill without asking, the full recording still asks when you stop
+    const liveOverBudget =
+      !isRecording && canTranscribeLive && values.liveTranscription && (await getBudgetStatus()).isExceeded;
+
+    // Live state is only reset once the new recording has started, a rejected start keeps the running one's text
+    const outputPath = await startRecording(values.inputDevice);
+    if (!outputPath) return;
+
     setValue("transcription", "");
-    startRecording();
+    liveSession.current += 1;
+    liveText.current = "";
+    hasShownLiveError.current = false;
+    isLiveOverBudget.current = liveOverBudget;
+
+    await setLastInputDevice(values.inputDevice);
+
+    if (liveOverBudget) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Live transcription is off",
+        message: "The monthly budget is exceeded",
+      });
+    }
   };
 
   useEffect(() => {
@@ -124,8 +400,14 @@ export default function Command() {
   };
 
   const getPlaceholder = () => {
+    if (isPaused) {
+      return `Recording paused (${formatDuration(recordingDuration)}), resume with ⌘+P`;
+    }
     if (isRecording) {
-      return `Recording in progress... (${formatDuration(recordingDuration)})`;
+      const autoStopHint = silenceSettings.autoStop
+        ? `, stops after ${silenceSettings.timeoutSeconds}s of silence`
+        : "";
+      return `Recording in progress... (${formatDuration(recordingDuration)}${autoStopHint})`;
     }
     if (isTranscribing) {
       return "Transcribing your audio...";
@@ -134,8 +416,11 @@ export default function Command() {
   };
 
   const getTitle = () => {
+    if (isPaused) {
+      return "Paused";
+    }
     if (isRecording) {
-      return "Recording";
+      return `Recording ${formatLevelMeter(inputLevel, LEVEL_METER_CONFIG.SEGMENTS)}`;
     }
     if (isTranscribing) {
       return "Transcribing";
@@ -156,6 +441,24 @@ export default function Command() {
             <Action title="Stop Recording" onAction={handleStopRecording} shortcut={{ modifiers: ["cmd"], key: "s" }} />
           )}
 
+          {isRecording && !isPaused && (
+            <Action
+              title="Pause Recording"
+              icon={Icon.Pause}
+              onAction={pauseRecording}
+              shortcut={{ modifiers: ["cmd"], key: "p" }}
+            />
+          )}
+
+          {isPaused && (
+            <Action
+              title="Resume Recording"
+              icon={Icon.Play}
+              onAction={resumeRecording}
+              shortcut={{ modifiers: ["cmd"], key: "p" }}
+            />
+          )}
+
           <Action.SubmitForm
             title="Copy to Clipboard"
             onSubmit={handleSubmit}
@@ -169,6 +472,23 @@ export default function Command() {
             onAction={() => open("raycast://extensions/facundo_prieto/speech-to-text/transcription-history")}
             shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
           />
+
+          {!isRecording && (
+            <Action
+              title="Record Noise Profile"
+              icon={Icon.Waveform}
+              onAction={handleRecordNoiseProfile}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+            />
+          )}
+
+          <Action.Push
+            title="Manage Templates"
+            icon={Icon.Wand}
+            target={<TemplateList />}
+            onPop={() => void getTemplates().then(setTemplates)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+          />
         </ActionPanel>
       }
     >
@@ -182,6 +502,28 @@ export default function Command() {
 
       <Form.Separator />
 
+      <Form.Dropdown
+        {...itemProps.inputDevice}
+        title="Input Device"
+        info="Microphone to record from, the last one used is remembered"
+      >
+        <Form.Dropdown.Item value={DEFAULT_INPUT_DEVICE} title="System Default" />
+        {inputDevices.map((device) => (
+          <Form.Dropdown.Item
+            key={device.name}
+            value={device.name}
+            title={device.isDefault ? `${device.name} (System Default)` : device.name}
+          />
+        ))}
+        {values.inputDevice !== DEFAULT_INPUT_DEVICE &&
+          !inputDevices.some((device) => device.name === values.inputDevice) && (
+            <Form.Dropdown.Item
+              value={values.inputDevice}
+              title={inputDevices.length > 0 ? `${values.inputDevice} (Not Connected)` : values.inputDevice}
+            />
+          )}
+      </Form.Dropdown>
+
       <Form.TextArea
         {...itemProps.promptText}
         title="Prompt"
@@ -196,6 +538,28 @@ export default function Command() {
         info="Comma-separated list of specialized terms, names, or jargon"
       />
 
+      <Form.Dropdown
+        {...itemProps.templateId}
+        title="Post-Processing"
+        info="Rewrite the transcription with an LLM after it finishes, both versions are kept in history"
+      >
+        <Form.Dropdown.Item value={NO_TEMPLATE} title="None" />
+        {templates.map((template) => (
+          <Form.Dropdown.Item key={template.id} value={template.id} title={template.name} />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Dropdown
+        {...itemProps.preprocessingPresetId}
+        title="Preprocessing"
+        info="Clean up a copy of the audio before upload, the original is kept next to it"
+      >
+        <Form.Dropdown.Item value={NO_PREPROCESSING} title="None" />
+        {getPreprocessingPresets().map((preset) => (
+          <Form.Dropdown.Item key={preset.id} value={preset.id} title={preset.name} />
+        ))}
+      </Form.Dropdown>
+
       <Form.Checkbox
         {...itemProps.useContext}
         title="Use Highlighted Text"
@@ -203,25 +567,63 @@ export default function Command() {
         info="Uses any text you have highlighted in another app as context for transcription"
       />
 
+      {canTranscribeLive && (
+        <Form.Checkbox
+          {...itemProps.liveTranscription}
+          title="Live Transcription"
+          label="Transcribe while recording"
+          info="Shows partial text every few seconds so you can catch a wrong microphone or language early. The full recording is transcribed again when you stop"
+        />
+      )}
+
       <Form.Dropdown
-        {...itemProps.language}
-        title="Language"
-        info="Select a language for better transcription accuracy"
+        id={itemProps.mode.id}
+        title="Mode"
+        info="Translate turns speech in any language into English text"
+        value={itemProps.mode.value}
+        onChange={(newValue) => {
+          const mode = newValue as TranscriptionMode;
+          setValue("mode", mode);
+          setValue("model", resolveProviderModel(values.provider, values.model, mode));
+        }}
+        error={itemProps.mode.error}
       >
-        {LANGUAGE_OPTIONS.map((option) => (
-          <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+        {TRANSCRIPTION_MODES.map((mode) => (
+          <Form.Dropdown.Item key={mode.value} value={mode.value} title={mode.title} />
         ))}
       </Form.Dropdown>
 
+      {values.mode === "transcribe" && (
+        <Form.Dropdown
+          {...itemProps.language}
+          title="Language"
+          info="Select a language for better transcription accuracy"
+        >
+          {LANGUAGE_OPTIONS.map((option) => (
+            <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+
       <Form.Dropdown
-        id={itemProps.model.id}
-        title="Model"
-        info="Select a model for better transcription accuracy"
-        value={itemProps.model.value}
-        onChange={itemProps.model.onChange as (newValue: string) => void}
-        error={itemProps.model.error}
+        id={itemProps.provider.id}
+        title="Provider"
+        info="Select where the audio is sent for transcription"
+        value={itemProps.provider.value}
+        onChange={(newValue) => {
+          const provider = newValue as TranscriptionProviderId;
+          setValue("provider", provider);
+          setValue("model", resolveProviderModel(provider, values.model, values.mode));
+        }}
+        error={itemProps.provider.error}
       >
-        {TRANSCRIPTION_MODELS.map((model) => (
+        {TRANSCRIPTION_PROVIDERS.map((provider) => (
+          <Form.Dropdown.Item key={provider.id} value={provider.id} title={provider.name} />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Dropdown title="Model" info="Select a model for better transcription accuracy" {...itemProps.model}>
+        {getProviderModels(values.provider, values.mode).map((model) => (
           <Form.Dropdown.Item key={model.id} value={model.id} title={model.name} />
         ))}
       </Form.Dropdown>
@@ -10,102 +10,129 @@ import {
   Clipboard,
   Alert,
   confirmAlert,
-  trash,
   showInFinder,
   useNavigation,
   Form,
   getPreferenceValues,
+  open,
+  openExtensionPreferences,
 } from "@raycast/api";
 import { showFailureToast } from "@raycast/utils";
-import fs from "fs-extra";
 import path from "path";
 import { exec } from "child_process";
-import { listAudioFiles, getAudioDuration } from "./utils/audio";
-import { saveTranscription, transcribeAudio, loadTranscription } from "./utils/ai/transcription";
-import { formatDate, formatDuration, formatFileSize } from "./utils/formatting";
-import { TranscriptionFile, TranscriptionResult, Preferences, TranscriptionModelId } from "./types";
-import { LANGUAGE_OPTIONS, TRANSCRIPTION_MODELS, buildCompletePrompt } from "./constants";
+import { recoverRecording } from "./utils/recovery";
+import {
+  getIndexedTranscriptionFiles,
+  getTranscriptionFields,
+  refreshHistoryEntry,
+  syncHistoryIndex,
+} from "./utils/historyIndex";
+import {
+  ALL_RECORDINGS_FILTER,
+  FAVORITES_FILTER,
+  getHistorySortOrder,
+  getDateFilterValue,
+  getLanguageFilterValue,
+  getLanguageTitle,
+  getModelFilterValue,
+  getStatusFilterValue,
+  getTagFilterValue,
+  groupTranscriptionFiles,
+  matchesDateFilter,
+  matchesHistoryFilter,
+  matchesSearchText,
+  parseHistorySearch,
+  setHistorySortOrder,
+  sortTranscriptionFiles,
+} from "./utils/historyFilters";
+import { saveRecordingMetadata } from "./utils/metadata";
+import { getPreprocessingPresets } from "./utils/preprocessing";
+import { transcribeAudio, loadTranscription } from "./utils/ai/transcription";
+import { postProcessTranscription } from "./utils/ai/postProcessing";
+import { getTemplate, getTemplates } from "./utils/templates";
+import { isRetryableError } from "./utils/ai/errors";
+import { enqueueTranscription, getQueue, removeQueuedTranscription, runQueuedTranscription } from "./utils/queue";
+import {
+  formatDate,
+  formatDuration,
+  formatFileSize,
+  formatTimestamp,
+  formatTimestampedTranscript,
+} from "./utils/formatting";
+import { getProviderModels, resolveProviderModel } from "./utils/ai/providers";
+import {
+  HistorySortOrder,
+  PostProcessingTemplate,
+  RecordingMetadata,
+  QueueJobSettings,
+  TranscriptionFile,
+  TranscriptionResult,
+  Preferences,
+  TranscriptionMode,
+  TranscriptionModelId,
+  TranscriptionProviderId,
+} from "./types";
+import {
+  HISTORY_DATE_FILTERS,
+  HISTORY_SORT_OPTIONS,
+  LANGUAGE_OPTIONS,
+  TRANSCRIPTION_MODES,
+  TRANSCRIPTION_PROVIDERS,
+  buildCompletePrompt,
+} from "./constants";
+import { ExportForm } from "./components/ExportForm";
+import { runBulkOperation } from "./utils/bulk";
+import { deleteRecording } from "./utils/recordings";
+import { applyRetentionPolicy, getDirectorySize, getRetentionSettings, hasRetentionPolicy } from "./utils/retention";
+import { getTranscriptionFilePath } from "./utils/audio";
+import { exportNote, getNotesSettings } from "./utils/notes";
+import { confirmWithinBudget } from "./utils/usage";
+import { RecordingDetailsForm } from "./components/RecordingDetailsForm";
+import { EditTranscriptionForm } from "./components/EditTranscriptionForm";
+import { RevisionHistory } from "./components/RevisionHistory";
+import { ImportForm } from "./components/ImportForm";
+import { SegmentList } from "./components/SegmentList";
+import { useAudioPlayer } from "./hooks/useAudioPlayer";
+
+const NO_PREPROCESSING = "none";
+const NO_TEMPLATE = "none";
 
 export default function TranscriptionHistory() {
   const { push } = useNavigation();
   const [files, setFiles] = useState<TranscriptionFile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchText, setSearchText] = useState("");
+  const [filter, setFilter] = useState(ALL_RECORDINGS_FILTER);
+  const [sortOrder, setSortOrder] = useState<HistorySortOrder>("date");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isShowingDetails, setIsShowingDetails] = useState(true);
-
-  const parseRecordingDate = (fileName: string): Date => {
-    const regex = /recording-(.+)\.wav$/;
-    const dateMatch = regex.exec(fileName);
-    const dateStr = dateMatch
-      ? dateMatch[1].replace(/-/g, (match, offset) => {
-          if (offset === 10) return "T"; // After date
-          if (offset > 10) return offset === 13 || offset === 16 ? ":" : "."; // Time separators
-          return "-"; // Date separators
-        })
-      : "";
-
-    return dateStr ? new Date(dateStr) : new Date();
-  };
-
-  const loadTranscriptionFromFile = async (filePath: string): Promise<string | null> => {
-    const transcriptionFilePath = filePath.replace(/\.wav$/, ".json");
-
-    if (await fs.pathExists(transcriptionFilePath)) {
-      try {
-        const transcriptionData = await fs.readJSON(transcriptionFilePath);
-        return transcriptionData.text || null;
-      } catch (error) {
-        console.error(`Error reading transcription file ${transcriptionFilePath}:`, error);
-      }
-    }
-
-    return null;
-  };
-
-  const processAudioFile = async (filePath: string): Promise<TranscriptionFile | null> => {
-    try {
-      const stats = await fs.stat(filePath);
-      const fileName = path.basename(filePath);
-
-      const recordedAt = parseRecordingDate(fileName);
-
-      const duration = await getAudioDuration(filePath);
-
-      const transcription = await loadTranscriptionFromFile(filePath);
-
-      return {
-        id: fileName,
-        filePath,
-        fileName,
-        recordedAt,
-        duration,
-        sizeInBytes: stats.size,
-        transcription,
-        wordCount: transcription ? transcription.split(/\s+/).filter(Boolean).length : 0,
-      };
-    } catch (error) {
-      console.error(`Error processing file ${filePath}:`, error);
-      return null;
-    }
-  };
+  const [isShowingRawText, setIsShowingRawText] = useState(false);
+  const [templates, setTemplates] = useState<PostProcessingTemplate[]>([]);
+  const [storageUsed, setStorageUsed] = useState<number | null>(null);
+  const retentionSettings = getRetentionSettings();
+  const notesSettings = getNotesSettings();
+  const { playback, play, stop } = useAudioPlayer();
 
   const loadFiles = async () => {
     setIsLoading(true);
 
     try {
-      const audioFiles = await listAudioFiles();
-      const transcriptionFiles: TranscriptionFile[] = [];
+      const queue = await getQueue();
 
-      for (const filePath of audioFiles) {
-        const file = await processAudioFile(filePath);
-        if (file) {
-          transcriptionFiles.push(file);
-        }
+      // Show the last known state right away, then check it against the folder
+      const indexedFiles = await getIndexedTranscriptionFiles(queue);
+      if (indexedFiles.length > 0) {
+        setFiles(indexedFiles);
       }
 
-      transcriptionFiles.sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+      try {
+        await applyRetentionPolicy(undefined, retentionSettings);
+      } catch (error) {
+        console.error("Error applying retention policy:", error);
+      }
 
-      setFiles(transcriptionFiles);
+      setFiles(await syncHistoryIndex(queue));
+      setStorageUsed(await getDirectorySize());
     } catch (error) {
       console.error("Error loading audio files:", error);
       await showFailureToast(error, {
@@ -118,8 +145,35 @@ export default function TranscriptionHistory() {
 
   useEffect(() => {
     loadFiles();
+    getTemplates().then(setTemplates);
+    getHistorySortOrder().then(setSortOrder);
   }, []);
 
+  const handleCleanUp = async () => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Cleaning Up..." });
+
+    try {
+      const { deletedCount, freedBytes } = await applyRetentionPolicy(undefined, retentionSettings);
+
+      toast.style = Toast.Style.Success;
+      toast.title = deletedCount === 0 ? "Nothing to Clean Up" : "Cleaned Up";
+      toast.message =
+        deletedCount === 0
+          ? undefined
+          : `Deleted the audio of ${deletedCount} ${deletedCount === 1 ? "recording" : "recordings"}, freeing ${formatFileSize(freedBytes)}`;
+
+      await loadFiles();
+    } catch (error) {
+      console.error("Cleanup error:", error);
+      await showFailureToast(error, { title: "Cleanup Failed" });
+    }
+  };
+
+  const handleSortOrderChange = async (order: HistorySortOrder) => {
+    setSortOrder(order);
+    await setHistorySortOrder(order);
+  };
+
   const copyTranscription = async (text: string) => {
     await Clipboard.copy(text);
     await showToast({
@@ -129,30 +183,253 @@ export default function TranscriptionHistory() {
     });
   };
 
-  const performTranscription = async (file: TranscriptionFile, transcriptionData: TranscriptionResult | null) => {
-    await showToast({
+  /**
+   * Transcribes one recording, queueing it for a later retry when the provider can't be reached
+   * @returns The saved transcription, or null if it was queued
+   */
+  const transcribeFile = async (
+    file: TranscriptionFile,
+    settings: QueueJobSettings,
+    toast: Toast,
+  ): Promise<TranscriptionResult | null> => {
+    const message = toast.message;
+
+    let result: TranscriptionResult;
+    try {
+      result = await transcribeAudio(file.filePath, {
+        overrideLanguage: settings.language,
+        overridePrompt: settings.prompt,
+        overrideModel: settings.model,
+        overrideProvider: settings.provider,
+        mode: settings.mode,
+        preprocessingPresetId: settings.preprocessingPresetId,
+        onProgress: ({ chunk, totalChunks }) => {
+          toast.message = `Chunk ${chunk}/${totalChunks} · ${message}`;
+        },
+      });
+    } catch (error) {
+      if (!isRetryableError(error)) throw error;
+
+      const queueJob = await enqueueTranscription(file.filePath, settings, error);
+      setFiles((prevFiles) => prevFiles.map((f) => (f.id === file.id ? { ...f, queueJob } : f)));
+      return null;
+    }
+
+    await removeQueuedTranscription(file.filePath);
+    setFiles((prevFiles) =>
+      prevFiles.map((f) => (f.id === file.id ? { ...f, ...getTranscriptionFields(result), queueJob: undefined } : f)),
+    );
+
+    return result;
+  };
+
+  const performTranscription = async (file: TranscriptionFile, settings: QueueJobSettings) => {
+    if (!(await confirmWithinBudget())) return;
+
+    const toast = await showToast({
       style: Toast.Style.Animated,
       title: "Transcribing...",
       message: file.fileName,
     });
 
-    const result = await transcribeAudio(file.filePath, {
-      overrideLanguage: transcriptionData?.language,
-      overridePrompt: transcriptionData?.prompt,
-      overrideModel: transcriptionData?.model,
+    const result = await transcribeFile(file, settings, toast);
+    if (!result) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Transcription Queued";
+      toast.message = "It will be retried automatically";
+      return;
+    }
+
+    let finalResult = result;
+
+    // Re-apply the template the previous transcription was processed with
+    const template = settings.templateId ? await getTemplate(settings.templateId) : undefined;
+    if (template) {
+      try {
+        toast.title = "Post-processing...";
+        toast.message = template.name;
+        finalResult = await postProcessTranscription(file.filePath, result, template);
+        handleTranscriptionUpdated(file, finalResult);
+      } catch (error) {
+        console.error("Post-processing error:", error);
+        await showFailureToast(error, { title: "Post-processing Failed" });
+      }
+    }
+
+    await copyTranscription(finalResult.postProcessing?.text ?? finalResult.text);
+  };
+
+  const handleBulkTranscribe = async (targets: TranscriptionFile[], settings: QueueJobSettings) => {
+    if (!(await confirmWithinBudget())) return;
+
+    const template = settings.templateId ? await getTemplate(settings.templateId) : undefined;
+
+    await runBulkOperation(targets, {
+      title: "Transcribing",
+      doneTitle: "Transcribed",
+      warningTitle: "not post-processed",
+      operation: async (file, toast, warn) => {
+        const result = await transcribeFile(file, settings, toast);
+        if (!result) return "queued";
+
+        // The transcription is saved either way, a failing template doesn't undo it
+        if (template) {
+          try {
+            handleTranscriptionUpdated(file, await postProcessTranscription(file.filePath, result, template));
+          } catch (error) {
+            console.error(`Post-processing ${file.fileName} failed:`, error);
+            warn(error);
+          }
+        }
+      },
+    });
+  };
+
+  const handleBulkDelete = async (targets: TranscriptionFile[], permanently: boolean) => {
+    const confirmed = await confirmAlert({
+      title: permanently ? "Delete Recordings Permanently" : "Move Recordings to Trash",
+      message: `${targets.length} ${targets.length === 1 ? "recording" : "recordings"} and their transcriptions will be ${permanently ? "deleted. This can't be undone." : "moved to the Trash."}`,
+      primaryAction: {
+        title: permanently ? "Delete" : "Move to Trash",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) return;
+
+    await runBulkOperation(targets, {
+      title: "Deleting",
+      doneTitle: "Deleted",
+      operation: async (file) => {
+        await deleteRecording(file.filePath, permanently);
+        setFiles((prevFiles) => prevFiles.filter((f) => f.id !== file.id));
+      },
+    });
+    setSelectedIds(new Set());
+  };
+
+  const showMissingNotesFolder = () =>
+    showToast({
+      style: Toast.Style.Failure,
+      title: "No Notes Folder",
+      message: "Choose a notes folder in the extension preferences",
+      primaryAction: { title: "Open Preferences", onAction: () => openExtensionPreferences() },
+    });
+
+  const exportFileNote = async (file: TranscriptionFile): Promise<string> => {
+    const transcription = await loadTranscription(file.filePath);
+    if (!transcription) {
+      throw new Error("This recording has no transcription");
+    }
+
+    return exportNote(file.filePath, transcription, notesSettings);
+  };
+
+  const handleExportNote = async (file: TranscriptionFile) => {
+    if (!notesSettings.folder) {
+      await showMissingNotesFolder();
+      return;
+    }
+
+    try {
+      const notePath = await exportFileNote(file);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Exported to Notes",
+        message: path.basename(notePath),
+        primaryAction: { title: "Open Note", onAction: () => open(notePath) },
+      });
+    } catch (error) {
+      console.error("Error exporting note:", error);
+      await showFailureToast(error, { title: "Note Export Failed" });
+    }
+  };
+
+  const handleBulkExportNotes = async (targets: TranscriptionFile[]) => {
+    if (!notesSettings.folder) {
+      await showMissingNotesFolder();
+      return;
+    }
+
+    await runBulkOperation(targets, {
+      title: "Exporting to Notes",
+      doneTitle: "Exported",
+      operation: async (file) => {
+        await exportFileNote(file);
+      },
+    });
+  };
+
+  const toggleSelection = (file: TranscriptionFile) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(file.id)) next.add(file.id);
+      return next;
+    });
+  };
+
+  const handleRetryQueued = async (file: TranscriptionFile) => {
+    if (!file.queueJob || !(await confirmWithinBudget())) return;
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Retrying Transcription...",
+      message: file.fileName,
+    });
+
+    const succeeded = await runQueuedTranscription(file.queueJob);
+    const updatedFile = await refreshHistoryEntry(file.filePath, await getQueue());
+
+    if (updatedFile) {
+      setFiles((prevFiles) => prevFiles.map((f) => (f.id === file.id ? updatedFile : f)));
+    }
+
+    if (succeeded) {
+      toast.style = Toast.Style.Success;
+      toast.title = "Transcription Complete";
+    } else {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Retry Failed";
+      toast.message = updatedFile?.queueJob?.lastError;
+    }
+  };
+
+  const handleRemoveFromQueue = async (file: TranscriptionFile) => {
+    await removeQueuedTranscription(file.filePath);
+    setFiles((prevFiles) => prevFiles.map((f) => (f.id === file.id ? { ...f, queueJob: undefined } : f)));
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Removed from Queue",
+      message: file.fileName,
     });
+  };
 
-    await saveTranscription(file.filePath, result);
+  const handlePostProcess = async (file: TranscriptionFile, template: PostProcessingTemplate) => {
+    try {
+      const transcription = await loadTranscription(file.filePath);
+      if (!transcription) {
+        throw new Error("This recording has no saved transcription");
+      }
 
-    setFiles((prevFiles) =>
-      prevFiles.map((f) =>
-        f.id === file.id
-          ? { ...f, transcription: result.text, wordCount: result.text.split(/\s+/).filter(Boolean).length }
-          : f,
-      ),
-    );
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Post-processing...",
+        message: template.name,
+      });
+
+      const result = await postProcessTranscription(file.filePath, transcription, template);
+
+      setFiles((prevFiles) =>
+        prevFiles.map((f) => (f.id === file.id ? { ...f, ...getTranscriptionFields(result) } : f)),
+      );
+      setIsShowingRawText(false);
 
-    await copyTranscription(result.text);
+      await copyTranscription(result.postProcessing?.text ?? result.text);
+    } catch (error) {
+      console.error("Post-processing error:", error);
+      await showFailureToast(error, { title: "Post-processing Failed" });
+    }
   };
 
   const handleTranscribe = async (file: TranscriptionFile) => {
@@ -173,14 +450,16 @@ export default function TranscriptionHistory() {
         });
       }
 
+      const settings = getTranscriptionSettings(existingTranscription);
+
       if (useOriginalSettings) {
-        await performTranscription(file, existingTranscription);
+        await performTranscription(file, settings);
       } else {
         push(
           <TranscriptionSettingsForm
-            file={file}
-            existingTranscription={existingTranscription}
-            onTranscribe={performTranscription}
+            initialSettings={settings}
+            templates={templates}
+            onSubmit={(newSettings) => performTranscription(file, newSettings)}
           />,
         );
       }
@@ -193,6 +472,62 @@ export default function TranscriptionHistory() {
     }
   };
 
+  const handleRecoverAndTranscribe = async (file: TranscriptionFile) => {
+    let recoveredFile: TranscriptionFile | null;
+
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Recovering Recording...",
+        message: file.fileName,
+      });
+
+      await recoverRecording(file.filePath);
+      recoveredFile = await refreshHistoryEntry(file.filePath, await getQueue());
+      if (!recoveredFile) {
+        throw new Error("The recovered recording could not be read");
+      }
+
+      const updatedFile = recoveredFile;
+      setFiles((prevFiles) => prevFiles.map((f) => (f.id === file.id ? updatedFile : f)));
+    } catch (error) {
+      console.error("Recovery error:", error);
+      await showFailureToast(error, { title: "Recovery Failed" });
+      return;
+    }
+
+    await handleTranscribe(recoveredFile);
+  };
+
+  const handleTranscriptionUpdated = (file: TranscriptionFile, transcription: TranscriptionResult) => {
+    setFiles((prevFiles) =>
+      prevFiles.map((f) => (f.id === file.id ? { ...f, ...getTranscriptionFields(transcription) } : f)),
+    );
+    setIsShowingRawText(false);
+  };
+
+  const handleMetadataSaved = (file: TranscriptionFile, metadata: RecordingMetadata | undefined) => {
+    setFiles((prevFiles) => prevFiles.map((f) => (f.id === file.id ? { ...f, metadata } : f)));
+  };
+
+  const handleToggleFavorite = async (file: TranscriptionFile) => {
+    try {
+      const isFavorite = !file.metadata?.isFavorite;
+      const metadata = await saveRecordingMetadata(file.filePath, { ...file.metadata, isFavorite });
+      await refreshHistoryEntry(file.filePath);
+      handleMetadataSaved(file, metadata);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: isFavorite ? "Added to Favorites" : "Removed from Favorites",
+        message: file.metadata?.title ?? file.fileName,
+      });
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      await showFailureToast(error, { title: "Failed to Update Favorite" });
+    }
+  };
+
   const handleDeleteFile = async (file: TranscriptionFile) => {
     const shouldDelete = await confirmAlert({
       title: "Delete Recording",
@@ -206,12 +541,7 @@ export default function TranscriptionHistory() {
     if (!shouldDelete) return;
 
     try {
-      await trash(file.filePath);
-
-      const transcriptionFilePath = file.filePath.replace(/\.wav$/, ".json");
-      if (await fs.pathExists(transcriptionFilePath)) {
-        await trash(transcriptionFilePath);
-      }
+      await deleteRecording(file.filePath);
 
       setFiles((prevFiles) => prevFiles.filter((f) => f.id !== file.id));
 
@@ -229,187 +559,637 @@ export default function TranscriptionHistory() {
     }
   };
 
-  const filteredFiles = files.filter((file) => {
-    if (!searchText) return true;
+  const { dateFilter, text: searchQuery } = parseHistorySearch(searchText);
+  const filteredFiles = files.filter(
+    (file) =>
+      matchesHistoryFilter(file, filter) && matchesDateFilter(file, dateFilter) && matchesSearchText(file, searchQuery),
+  );
+  const sections = groupTranscriptionFiles(sortTranscriptionFiles(filteredFiles, sortOrder), sortOrder);
+
+  const languages = [...new Set(files.map(getLanguageTitle).filter((language) => language !== undefined))].sort();
+  const models = [...new Set(files.map((file) => file.model).filter((model) => model !== undefined))].sort();
+  const tags = [...new Set(files.flatMap((file) => file.metadata?.tags ?? []))].sort();
 
-    const searchLower = searchText.toLowerCase();
-    return file.fileName.toLowerCase().includes(searchLower) || file.transcription?.toLowerCase().includes(searchLower);
-  });
+  // Bulk actions work on the selected recordings, or on everything the search and filter show
+  const bulkTargets = selectedIds.size > 0 ? files.filter((file) => selectedIds.has(file.id)) : filteredFiles;
+  const bulkScope = selectedIds.size > 0 ? "Selected" : "Shown";
+  const untranscribedTargets = bulkTargets.filter((file) => !file.transcription && !file.isInterrupted);
+  const transcribedTargets = bulkTargets.filter((file) => file.transcription);
+  const retranscribeTargets = transcribedTargets.filter((file) => !file.isAudioDeleted);
+
+  const storageSummary =
+    storageUsed === null
+      ? undefined
+      : retentionSettings.maxStorageBytes !== undefined
+        ? `${formatFileSize(storageUsed)} of ${formatFileSize(retentionSettings.maxStorageBytes)} used`
+        : `${formatFileSize(storageUsed)} used`;
 
   return (
     <List
       isLoading={isLoading}
       searchText={searchText}
       onSearchTextChange={setSearchText}
-      searchBarPlaceholder="Search recordings and transcriptions..."
+      navigationTitle={storageSummary ? `Transcription History · ${storageSummary}` : undefined}
+      searchBarPlaceholder="Search recordings and transcriptions, or narrow by date with date:last-week..."
       throttle
       isShowingDetail={isShowingDetails}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter Recordings" storeValue onChange={setFilter}>
+          <List.Dropdown.Item title="All Recordings" value={ALL_RECORDINGS_FILTER} />
+          <List.Dropdown.Section title="Status">
+            <List.Dropdown.Item title="Transcribed" value={getStatusFilterValue(true)} />
+            <List.Dropdown.Item title="Not Transcribed" value={getStatusFilterValue(false)} />
+            <List.Dropdown.Item title="Favorites" value={FAVORITES_FILTER} />
+          </List.Dropdown.Section>
+          <List.Dropdown.Section title="Date">
+            {HISTORY_DATE_FILTERS.map((range) => (
+              <List.Dropdown.Item key={range.value} title={range.title} value={getDateFilterValue(range.value)} />
+            ))}
+          </List.Dropdown.Section>
+          {languages.length > 0 && (
+            <List.Dropdown.Section title="Language">
+              {languages.map((language) => (
+                <List.Dropdown.Item key={language} title={language} value={getLanguageFilterValue(language)} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+          {tags.length > 0 && (
+            <List.Dropdown.Section title="Tag">
+              {tags.map((tag) => (
+                <List.Dropdown.Item key={tag} title={`#${tag}`} value={getTagFilterValue(tag)} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+          {models.length > 0 && (
+            <List.Dropdown.Section title="Model">
+              {models.map((model) => (
+                <List.Dropdown.Item key={model} title={model} value={getModelFilterValue(model)} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+        </List.Dropdown>
+      }
     >
-      <List.Section title="Recordings" subtitle={filteredFiles.length.toString()}>
-        {filteredFiles.map((file) => (
-          <List.Item
-            key={file.id}
-            title={formatDate(file.recordedAt)}
-            accessories={[
-              { text: formatDuration(file.duration) },
-              { text: formatFileSize(file.sizeInBytes) },
-              {
-                tag: {
-                  value: file.transcription ? "Transcribed" : "Audio Only",
-                  color: file.transcription ? Color.Green : Color.Orange,
-                },
-              },
-            ]}
-            detail={
-              <List.Item.Detail
-                markdown={
-                  file.transcription
-                    ? `# Transcription:\n\n${file.transcription}`
-                    : "# No Transcription\n\nThis recording hasn't been transcribed yet. Use the Transcribe action (⌘T) to generate a transcription."
-                }
-                metadata={
-                  <List.Item.Detail.Metadata>
-                    <List.Item.Detail.Metadata.TagList title="File Name">
-                      <List.Item.Detail.Metadata.TagList.Item
-                        text={file.fileName}
-                        icon={{ source: Icon.Document, tintColor: Color.PrimaryText }}
-                        onAction={() => {
-                          showInFinder(file.filePath);
-                        }}
-                      />
-                    </List.Item.Detail.Metadata.TagList>
-                    <List.Item.Detail.Metadata.Separator />
-                    <List.Item.Detail.Metadata.Label
-                      title="Recorded On"
-                      text={formatDate(file.recordedAt)}
-                      icon={{ source: Icon.Calendar, tintColor: Color.PrimaryText }}
-                    />
-                    <List.Item.Detail.Metadata.Separator />
-                    <List.Item.Detail.Metadata.Label
-                      title="Duration"
-                      text={formatDuration(file.duration)}
-                      icon={{ source: Icon.Clock, tintColor: Color.PrimaryText }}
-                    />
-                    <List.Item.Detail.Metadata.Separator />
-                    <List.Item.Detail.Metadata.Label
-                      title="File Size"
-                      text={formatFileSize(file.sizeInBytes)}
-                      icon={{ source: Icon.Document, tintColor: Color.PrimaryText }}
-                    />
-                    {file.transcription && (
-                      <>
-                        <List.Item.Detail.Metadata.Separator />
-                        <List.Item.Detail.Metadata.Label
-                          title="Word Count"
-                          text={file.wordCount.toString()}
+      <List.EmptyView
+        title="No Recordings"
+        description="Record a transcription, or import audio files you already have"
+        actions={
+          <ActionPanel>
+            <Action.Push title="Import Audio Files" icon={Icon.Download} target={<ImportForm onImport={loadFiles} />} />
+          </ActionPanel>
+        }
+      />
+      {sections.map((section) => (
+        <List.Section key={section.id} title={section.title} subtitle={section.files.length.toString()}>
+          {section.files.map((file) => (
+            <List.Item
+              key={file.id}
+              icon={
+                selectedIds.size > 0
+                  ? selectedIds.has(file.id)
+                    ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                    : Icon.Circle
+                  : undefined
+              }
+              title={file.metadata?.title ?? formatDate(file.recordedAt)}
+              subtitle={file.metadata?.title ? formatDate(file.recordedAt) : undefined}
+              keywords={file.metadata?.tags}
+              accessories={[
+                ...(playback?.filePath === file.filePath
+                  ? [{ icon: { source: Icon.SpeakerOn, tintColor: Color.Green }, tooltip: "Playing" }]
+                  : []),
+                ...(file.metadata?.isFavorite
+                  ? [{ icon: { source: Icon.Star, tintColor: Color.Yellow }, tooltip: "Favorite" }]
+                  : []),
+                ...(file.metadata?.tags ?? []).map((tag) => ({ tag: { value: `#${tag}`, color: Color.Purple } })),
+                ...(file.metadata?.notes ? [{ icon: Icon.Paragraph, tooltip: file.metadata.notes }] : []),
+                { text: formatDuration(file.duration) },
+                { text: formatFileSize(file.sizeInBytes) },
+                { tag: getStatusTag(file) },
+              ]}
+              detail={
+                <List.Item.Detail
+                  markdown={getDetailMarkdown(file, isShowingRawText)}
+                  metadata={
+                    <List.Item.Detail.Metadata>
+                      <List.Item.Detail.Metadata.TagList title="File Name">
+                        <List.Item.Detail.Metadata.TagList.Item
+                          text={file.fileName}
                           icon={{ source: Icon.Document, tintColor: Color.PrimaryText }}
+                          onAction={() => {
+                            showInFinder(file.isAudioDeleted ? getTranscriptionFilePath(file.filePath) : file.filePath);
+                          }}
                         />
-                      </>
-                    )}
-                  </List.Item.Detail.Metadata>
-                }
-              />
-            }
-            actions={
-              <ActionPanel>
-                <Action
-                  title={isShowingDetails ? "Hide Details" : "Show Details"}
-                  icon={isShowingDetails ? Icon.Sidebar : Icon.ChevronRight}
-                  onAction={() => setIsShowingDetails(!isShowingDetails)}
-                  shortcut={{ modifiers: ["cmd"], key: "d" }}
+                      </List.Item.Detail.Metadata.TagList>
+                      {file.metadata?.tags && (
+                        <List.Item.Detail.Metadata.TagList title="Tags">
+                          {file.metadata.tags.map((tag) => (
+                            <List.Item.Detail.Metadata.TagList.Item key={tag} text={`#${tag}`} color={Color.Purple} />
+                          ))}
+                        </List.Item.Detail.Metadata.TagList>
+                      )}
+                      <List.Item.Detail.Metadata.Separator />
+                      <List.Item.Detail.Metadata.Label
+                        title="Recorded On"
+                        text={formatDate(file.recordedAt)}
+                        icon={{ source: Icon.Calendar, tintColor: Color.PrimaryText }}
+                      />
+                      <List.Item.Detail.Metadata.Separator />
+                      <List.Item.Detail.Metadata.Label
+                        title="Duration"
+                        text={formatDuration(file.duration)}
+                        icon={{ source: Icon.Clock, tintColor: Color.PrimaryText }}
+                      />
+                      <List.Item.Detail.Metadata.Separator />
+                      <List.Item.Detail.Metadata.Label
+                        title="File Size"
+                        text={formatFileSize(file.sizeInBytes)}
+                        icon={{ source: Icon.Document, tintColor: Color.PrimaryText }}
+                      />
+                      {file.transcription && (
+                        <>
+                          <List.Item.Detail.Metadata.Separator />
+                          <List.Item.Detail.Metadata.Label
+                            title="Word Count"
+                            text={file.wordCount.toString()}
+                            icon={{ source: Icon.Document, tintColor: Color.PrimaryText }}
+                          />
+                        </>
+                      )}
+                      {file.mode === "translate" && (
+                        <>
+                          <List.Item.Detail.Metadata.Separator />
+                          <List.Item.Detail.Metadata.Label
+                            title="Mode"
+                            text="Translated to English"
+                            icon={{ source: Icon.Switch, tintColor: Color.PrimaryText }}
+                          />
+                        </>
+                      )}
+                      {file.queueJob && (
+                        <>
+                          <List.Item.Detail.Metadata.Separator />
+                          <List.Item.Detail.Metadata.Label
+                            title="Queue Status"
+                            text={
+                              file.queueJob.status === "pending"
+                                ? `Retrying ${formatDate(new Date(file.queueJob.nextAttemptAt))} (attempt ${file.queueJob.attempts + 1})`
+                                : `Failed after ${file.queueJob.attempts} ${file.queueJob.attempts === 1 ? "attempt" : "attempts"}`
+                            }
+                            icon={{ source: Icon.Hourglass, tintColor: Color.PrimaryText }}
+                          />
+                          {file.queueJob.lastError && (
+                            <List.Item.Detail.Metadata.Label
+                              title="Last Error"
+                              text={file.queueJob.lastError}
+                              icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+                            />
+                          )}
+                        </>
+                      )}
+                      {file.preprocessing && (
+                        <>
+                          <List.Item.Detail.Metadata.Separator />
+                          <List.Item.Detail.Metadata.TagList title="Preprocessing">
+                            <List.Item.Detail.Metadata.TagList.Item
+                              text={file.preprocessing.presetName}
+                              icon={{ source: Icon.Waveform, tintColor: Color.PrimaryText }}
+                              onAction={() => {
+                                showInFinder(file.preprocessing!.filePath);
+                              }}
+                            />
+                          </List.Item.Detail.Metadata.TagList>
+                        </>
+                      )}
+                      {file.detectedLanguage && (
+                        <>
+                          <List.Item.Detail.Metadata.Separator />
+                          <List.Item.Detail.Metadata.Label
+                            title="Detected Language"
+                            text={file.detectedLanguage}
+                            icon={{ source: Icon.Globe, tintColor: Color.PrimaryText }}
+                          />
+                        </>
+                      )}
+                    </List.Item.Detail.Metadata>
+                  }
                 />
-                {!file.transcription && (
+              }
+              actions={
+                <ActionPanel>
                   <Action
-                    title={"Transcribe"}
-                    icon={Icon.Text}
-                    onAction={() => handleTranscribe(file)}
-                    shortcut={{ modifiers: ["cmd"], key: "return" }}
+                    title={isShowingDetails ? "Hide Details" : "Show Details"}
+                    icon={isShowingDetails ? Icon.Sidebar : Icon.ChevronRight}
+                    onAction={() => setIsShowingDetails(!isShowingDetails)}
+                    shortcut={{ modifiers: ["cmd"], key: "d" }}
                   />
-                )}
-                {file.transcription && (
-                  <ActionPanel.Section title="Transcription Actions">
+                  {file.isInterrupted && (
+                    <Action
+                      title="Recover & Transcribe"
+                      icon={Icon.WrenchScrewdriver}
+                      onAction={() => handleRecoverAndTranscribe(file)}
+                      shortcut={{ modifiers: ["cmd"], key: "return" }}
+                    />
+                  )}
+                  {!file.transcription && !file.isInterrupted && (
                     <Action
-                      title={"Re-transcribe"}
-                      icon={Icon.ArrowClockwise}
+                      title={"Transcribe"}
+                      icon={Icon.Text}
                       onAction={() => handleTranscribe(file)}
                       shortcut={{ modifiers: ["cmd"], key: "return" }}
                     />
+                  )}
+                  {file.transcription && (
+                    <ActionPanel.Section title="Transcription Actions">
+                      {!file.isAudioDeleted && (
+                        <Action
+                          title={"Re-transcribe"}
+                          icon={Icon.ArrowClockwise}
+                          onAction={() => handleTranscribe(file)}
+                          shortcut={{ modifiers: ["cmd"], key: "return" }}
+                        />
+                      )}
+                      <Action.Push
+                        title="Edit Transcription"
+                        icon={Icon.Pencil}
+                        target={<EditTranscriptionForm file={file} onSave={handleTranscriptionUpdated} />}
+                        shortcut={{ modifiers: ["cmd", "opt"], key: "e" }}
+                      />
+                      <Action.Push
+                        title="Revision History"
+                        icon={Icon.BulletPoints}
+                        target={<RevisionHistory file={file} onRestore={handleTranscriptionUpdated} />}
+                        shortcut={{ modifiers: ["cmd"], key: "y" }}
+                      />
+                      <Action
+                        title="Copy Transcription"
+                        icon={Icon.Clipboard}
+                        onAction={() =>
+                          copyTranscription(
+                            file.postProcessing && !isShowingRawText ? file.postProcessing.text : file.transcription!,
+                          )
+                        }
+                        shortcut={{ modifiers: ["cmd"], key: "c" }}
+                      />
+                      {file.postProcessing && (
+                        <Action
+                          title={isShowingRawText ? "Show Processed Text" : "Show Raw Text"}
+                          icon={Icon.Switch}
+                          onAction={() => setIsShowingRawText(!isShowingRawText)}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                        />
+                      )}
+                      <ActionPanel.Submenu
+                        title="Apply Template"
+                        icon={Icon.Wand}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                      >
+                        {templates.map((template) => (
+                          <Action
+                            key={template.id}
+                            title={template.name}
+                            onAction={() => handlePostProcess(file, template)}
+                          />
+                        ))}
+                      </ActionPanel.Submenu>
+                      {file.segments && (
+                        <Action
+                          title="Copy with Timestamps"
+                          icon={Icon.Clock}
+                          onAction={() => copyTranscription(formatTimestampedTranscript(file.segments!))}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                        />
+                      )}
+                      <Action.Push
+                        title="Export Transcription"
+                        icon={Icon.Upload}
+                        target={<ExportForm files={[file]} />}
+                        shortcut={{ modifiers: ["cmd"], key: "e" }}
+                      />
+                      <Action
+                        title="Export to Notes"
+                        icon={Icon.Document}
+                        onAction={() => handleExportNote(file)}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+                      />
+                    </ActionPanel.Section>
+                  )}
+                  {file.queueJob && (
+                    <ActionPanel.Section title="Queue Actions">
+                      <Action
+                        title="Retry Now"
+                        icon={Icon.ArrowClockwise}
+                        onAction={() => handleRetryQueued(file)}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+                      />
+                      <Action
+                        title="Remove from Queue"
+                        icon={Icon.XMarkCircle}
+                        onAction={() => handleRemoveFromQueue(file)}
+                      />
+                    </ActionPanel.Section>
+                  )}
+                  {!file.isAudioDeleted && (
+                    <ActionPanel.Section title="Playback">
+                      {playback?.filePath === file.filePath ? (
+                        <Action
+                          title="Stop Playback"
+                          icon={Icon.Stop}
+                          onAction={stop}
+                          shortcut={{ modifiers: ["cmd"], key: "p" }}
+                        />
+                      ) : (
+                        <Action
+                          title="Play Recording"
+                          icon={Icon.Play}
+                          onAction={() => play(file.filePath)}
+                          shortcut={{ modifiers: ["cmd"], key: "p" }}
+                        />
+                      )}
+                      {!!file.segments?.length && (
+                        <Action
+                          title="Play from Segment"
+                          icon={Icon.Waveform}
+                          onAction={() => {
+                            // The segment list plays on its own, so two recordings don't play at once
+                            stop();
+                            push(<SegmentList file={file} segments={file.segments!} />);
+                          }}
+                          shortcut={{ modifiers: ["cmd", "opt"], key: "p" }}
+                        />
+                      )}
+                    </ActionPanel.Section>
+                  )}
+                  <ActionPanel.Section title="Organize">
+                    <Action.Push
+                      title="Edit Details"
+                      icon={Icon.Pencil}
+                      target={<RecordingDetailsForm file={file} onSave={handleMetadataSaved} />}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                    />
                     <Action
-                      title="Copy Transcription"
-                      icon={Icon.Clipboard}
-                      onAction={() => copyTranscription(file.transcription!)}
-                      shortcut={{ modifiers: ["cmd"], key: "c" }}
+                      title={file.metadata?.isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+                      icon={file.metadata?.isFavorite ? Icon.StarDisabled : Icon.Star}
+                      onAction={() => handleToggleFavorite(file)}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
                     />
                   </ActionPanel.Section>
-                )}
-                <ActionPanel.Section title="File Actions">
-                  <Action
-                    title="Refresh List"
-                    icon={Icon.RotateClockwise}
-                    onAction={loadFiles}
-                    shortcut={{ modifiers: ["cmd"], key: "r" }}
-                  />
-                  <Action
-                    title="Open Folder"
-                    icon={Icon.Folder}
-                    onAction={() => {
-                      const folder = path.dirname(file.filePath);
-                      exec(`open "${folder}"`);
-                    }}
-                    shortcut={{ modifiers: ["cmd"], key: "o" }}
-                  />
-                  <Action
-                    title="Delete Recording"
-                    icon={Icon.Trash}
-                    style={Action.Style.Destructive}
-                    onAction={() => handleDeleteFile(file)}
-                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
-                  />
-                </ActionPanel.Section>
-              </ActionPanel>
-            }
-          />
-        ))}
-      </List.Section>
+                  <ActionPanel.Section title="Bulk Actions">
+                    <Action
+                      title={selectedIds.has(file.id) ? "Deselect Recording" : "Select Recording"}
+                      icon={selectedIds.has(file.id) ? Icon.Circle : Icon.CheckCircle}
+                      onAction={() => toggleSelection(file)}
+                      shortcut={{ modifiers: ["cmd"], key: "s" }}
+                    />
+                    <Action
+                      title="Select All Shown"
+                      icon={Icon.CheckList}
+                      onAction={() => setSelectedIds(new Set(filteredFiles.map((f) => f.id)))}
+                      shortcut={{ modifiers: ["cmd", "opt"], key: "a" }}
+                    />
+                    {selectedIds.size > 0 && (
+                      <Action
+                        title="Clear Selection"
+                        icon={Icon.XMarkCircle}
+                        onAction={() => setSelectedIds(new Set())}
+                      />
+                    )}
+                    {untranscribedTargets.length > 0 && (
+                      <Action.Push
+                        title={`Transcribe ${bulkScope} Untranscribed (${untranscribedTargets.length})`}
+                        icon={Icon.Text}
+                        target={
+                          <TranscriptionSettingsForm
+                            initialSettings={{}}
+                            templates={templates}
+                            navigationTitle={`Transcribe ${untranscribedTargets.length} Recordings`}
+                            onSubmit={(settings) => handleBulkTranscribe(untranscribedTargets, settings)}
+                          />
+                        }
+                      />
+                    )}
+                    {retranscribeTargets.length > 0 && (
+                      <Action.Push
+                        title={`Re-transcribe ${bulkScope} (${retranscribeTargets.length})`}
+                        icon={Icon.ArrowClockwise}
+                        target={
+                          <TranscriptionSettingsForm
+                            initialSettings={{}}
+                            templates={templates}
+                            navigationTitle={`Re-transcribe ${retranscribeTargets.length} Recordings`}
+                            onSubmit={(settings) => handleBulkTranscribe(retranscribeTargets, settings)}
+                          />
+                        }
+                      />
+                    )}
+                    {transcribedTargets.length > 0 && (
+                      <Action.Push
+                        title={`Export ${bulkScope} (${transcribedTargets.length})`}
+                        icon={Icon.Upload}
+                        target={<ExportForm files={transcribedTargets} />}
+                      />
+                    )}
+                    {transcribedTargets.length > 0 && (
+                      <Action
+                        title={`Export ${bulkScope} to Notes (${transcribedTargets.length})`}
+                        icon={Icon.Document}
+                        onAction={() => handleBulkExportNotes(transcribedTargets)}
+                      />
+                    )}
+                    <Action
+                      title={`Move ${bulkScope} to Trash (${bulkTargets.length})`}
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={() => handleBulkDelete(bulkTargets, false)}
+                    />
+                    <Action
+                      title={`Delete ${bulkScope} Permanently (${bulkTargets.length})`}
+                      icon={Icon.XMarkCircle}
+                      style={Action.Style.Destructive}
+                      onAction={() => handleBulkDelete(bulkTargets, true)}
+                    />
+                  </ActionPanel.Section>
+                  <ActionPanel.Section title="File Actions">
+                    {!file.isAudioDeleted && (
+                      <Action.Open
+                        title="Open Recording"
+                        icon={Icon.AppWindow}
+                        target={file.filePath}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+                      />
+                    )}
+                    {file.preprocessing && !file.isAudioDeleted && (
+                      <Action.Open
+                        title="Open Preprocessed Audio"
+                        icon={Icon.Waveform}
+                        target={file.preprocessing.filePath}
+                        shortcut={{ modifiers: ["cmd", "opt"], key: "o" }}
+                      />
+                    )}
+                    <ActionPanel.Submenu
+                      title="Sort By"
+                      icon={Icon.ArrowUp}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                    >
+                      {HISTORY_SORT_OPTIONS.map((option) => (
+                        <Action
+                          key={option.value}
+                          title={option.title}
+                          icon={option.value === sortOrder ? Icon.Checkmark : undefined}
+                          onAction={() => handleSortOrderChange(option.value)}
+                        />
+                      ))}
+                    </ActionPanel.Submenu>
+                    <Action.Push
+                      title="Import Audio Files"
+                      icon={Icon.Download}
+                      target={<ImportForm onImport={loadFiles} />}
+                      shortcut={{ modifiers: ["cmd"], key: "i" }}
+                    />
+                    {hasRetentionPolicy(retentionSettings) && (
+                      <Action title="Apply Retention Rules" icon={Icon.Eraser} onAction={handleCleanUp} />
+                    )}
+                    <Action
+                      title="Refresh List"
+                      icon={Icon.RotateClockwise}
+                      onAction={loadFiles}
+                      shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    />
+                    <Action
+                      title="Open Folder"
+                      icon={Icon.Folder}
+                      onAction={() => {
+                        const folder = path.dirname(file.filePath);
+                        exec(`open "${folder}"`);
+                      }}
+                      shortcut={{ modifiers: ["cmd"], key: "o" }}
+                    />
+                    <Action
+                      title="Delete Recording"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={() => handleDeleteFile(file)}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    />
+                  </ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
     </List>
   );
 }
 
+function getStatusTag(file: TranscriptionFile): { value: string; color: Color } {
+  if (file.isInterrupted) {
+    return { value: "Interrupted", color: Color.Yellow };
+  }
+
+  if (file.isAudioDeleted) {
+    return { value: "Transcript Only", color: Color.SecondaryText };
+  }
+
+  if (file.transcription) {
+    return { value: "Transcribed", color: Color.Green };
+  }
+
+  if (file.queueJob) {
+    return file.queueJob.status === "pending"
+      ? { value: "Queued", color: Color.Blue }
+      : { value: "Failed", color: Color.Red };
+  }
+
+  return { value: "Audio Only", color: Color.Orange };
+}
+
+function getDetailMarkdown(file: TranscriptionFile, isShowingRawText: boolean): string {
+  const markdown = file.isInterrupted
+    ? "# Interrupted Recording\n\nThis recording was not finished properly, for example because the window was closed while recording. Use Recover & Transcribe (⌘↩) to repair it and transcribe it."
+    : file.transcription
+      ? getTranscriptMarkdown(file, isShowingRawText)
+      : "# No Transcription\n\nThis recording hasn't been transcribed yet. Use the Transcribe action (⌘T) to generate a transcription.";
+
+  return file.metadata?.notes ? `${markdown}\n\n---\n\n## Notes\n\n${file.metadata.notes}` : markdown;
+}
+
+function getTranscriptMarkdown(file: TranscriptionFile, isShowingRawText: boolean): string {
+  if (file.postProcessing && !isShowingRawText) {
+    return `# ${file.postProcessing.templateName}:\n\n${file.postProcessing.text}`;
+  }
+
+  if (!file.segments || file.segments.length === 0) {
+    return `# Transcription:\n\n${file.transcription ?? ""}`;
+  }
+
+  const transcript = file.segments
+    .map((segment) => `\`${formatTimestamp(segment.start)}\` ${segment.text}`)
+    .join("\n\n");
+  return `# Transcription:\n\n${transcript}`;
+}
+
+function getTranscriptionSettings(transcription: TranscriptionResult | null): QueueJobSettings {
+  return {
+    language: transcription?.language,
+    prompt: transcription?.prompt,
+    model: transcription?.model,
+    provider: transcription?.provider,
+    mode: transcription?.mode,
+    templateId: transcription?.postProcessing?.templateId,
+    preprocessingPresetId: transcription?.preprocessing?.presetId,
+  };
+}
+
 function TranscriptionSettingsForm({
-  file,
-  existingTranscription,
-  onTranscribe,
+  initialSettings,
+  templates,
+  navigationTitle,
+  onSubmit,
 }: {
-  file: TranscriptionFile;
-  existingTranscription: TranscriptionResult | null;
-  onTranscribe: (file: TranscriptionFile, transcription: TranscriptionResult | null) => Promise<void>;
+  initialSettings: QueueJobSettings;
+  templates: PostProcessingTemplate[];
+  navigationTitle?: string;
+  onSubmit: (settings: QueueJobSettings) => Promise<void>;
 }) {
   const { pop } = useNavigation();
   const preferences = getPreferenceValues<Preferences>();
 
-  const [language, setLanguage] = useState<string>(existingTranscription?.language ?? preferences.language ?? "auto");
-  const [promptText, setPromptText] = useState<string>(existingTranscription?.prompt ?? preferences.promptText ?? "");
-  const [model, setModel] = useState<TranscriptionModelId>(existingTranscription?.model ?? preferences.model);
+  const [language, setLanguage] = useState<string>(initialSettings.language ?? preferences.language ?? "auto");
+  const [promptText, setPromptText] = useState<string>(initialSettings.prompt ?? preferences.promptText ?? "");
+  const [provider, setProvider] = useState<TranscriptionProviderId>(
+    initialSettings.provider ?? preferences.provider ?? "groq",
+  );
+  const [mode, setMode] = useState<TranscriptionMode>(initialSettings.mode ?? preferences.mode ?? "transcribe");
+  const [preprocessingPresetId, setPreprocessingPresetId] = useState<string>(
+    initialSettings.preprocessingPresetId ?? NO_PREPROCESSING,
+  );
+  const [templateId, setTemplateId] = useState<string>(initialSettings.templateId ?? NO_TEMPLATE);
+  const [model, setModel] = useState<TranscriptionModelId>(
+    resolveProviderModel(
+      initialSettings.provider ?? preferences.provider,
+      initialSettings.model,
+      initialSettings.mode ?? preferences.mode,
+    ),
+  );
 
   const handleSubmit = async () => {
-    const prompt = existingTranscription?.prompt ?? buildCompletePrompt(promptText, preferences.userTerms);
+    pop();
 
-    const modifiedTranscription: TranscriptionResult = {
-      ...(existingTranscription || {}),
-      text: existingTranscription?.text ?? "",
-      timestamp: existingTranscription?.timestamp ?? new Date().toISOString(),
+    await onSubmit({
       language,
-      prompt,
+      prompt: initialSettings.prompt ?? buildCompletePrompt(promptText, preferences.userTerms),
       model,
-    };
-
-    pop();
-
-    await onTranscribe(file, modifiedTranscription);
+      provider,
+      mode,
+      templateId: templateId !== NO_TEMPLATE ? templateId : undefined,
+      preprocessingPresetId: preprocessingPresetId !== NO_PREPROCESSING ? preprocessingPresetId : undefined,
+    });
   };
 
   return (
     <Form
+      navigationTitle={navigationTitle}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Transcribe" onSubmit={handleSubmit} />
@@ -417,6 +1197,22 @@ function TranscriptionSettingsForm({
         </ActionPanel>
       }
     >
+      <Form.Dropdown
+        id="provider"
+        title="Provider"
+        value={provider}
+        onChange={(newValue) => {
+          const newProvider = newValue as TranscriptionProviderId;
+          setProvider(newProvider);
+          setModel(resolveProviderModel(newProvider, model, mode));
+        }}
+        info="Select where the audio is sent for transcription"
+      >
+        {TRANSCRIPTION_PROVIDERS.map((provider) => (
+          <Form.Dropdown.Item key={provider.id} value={provider.id} title={provider.name} />
+        ))}
+      </Form.Dropdown>
+
       <Form.Dropdown
         id="model"
         title="Model"
@@ -424,14 +1220,58 @@ function TranscriptionSettingsForm({
         onChange={(newValue) => setModel(newValue as TranscriptionModelId)}
         info="Select the AI model to use for transcription"
       >
-        {TRANSCRIPTION_MODELS.map((model) => (
+        {getProviderModels(provider, mode).map((model) => (
           <Form.Dropdown.Item key={model.id} value={model.id} title={model.name} />
         ))}
       </Form.Dropdown>
 
-      <Form.Dropdown id="language" title="Language" value={language} onChange={setLanguage}>
-        {LANGUAGE_OPTIONS.map((option) => (
-          <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+      <Form.Dropdown
+        id="mode"
+        title="Mode"
+        value={mode}
+        onChange={(newValue) => {
+          const newMode = newValue as TranscriptionMode;
+          setMode(newMode);
+          setModel(resolveProviderModel(provider, model, newMode));
+        }}
+        info="Translate turns speech in any language into English text"
+      >
+        {TRANSCRIPTION_MODES.map((mode) => (
+          <Form.Dropdown.Item key={mode.value} value={mode.value} title={mode.title} />
+        ))}
+      </Form.Dropdown>
+
+      {mode === "transcribe" && (
+        <Form.Dropdown id="language" title="Language" value={language} onChange={setLanguage}>
+          {LANGUAGE_OPTIONS.map((option) => (
+            <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+
+      <Form.Dropdown
+        id="preprocessingPresetId"
+        title="Preprocessing"
+        value={preprocessingPresetId}
+        onChange={setPreprocessingPresetId}
+        info="Clean up a copy of the audio before upload, the original is kept next to it"
+      >
+        <Form.Dropdown.Item value={NO_PREPROCESSING} title="None" />
+        {getPreprocessingPresets().map((preset) => (
+          <Form.Dropdown.Item key={preset.id} value={preset.id} title={preset.name} />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Dropdown
+        id="templateId"
+        title="Template"
+        value={templateId}
+        onChange={setTemplateId}
+        info="Post-process the transcription with a template once it is done"
+      >
+        <Form.Dropdown.Item value={NO_TEMPLATE} title="None" />
+        {templates.map((template) => (
+          <Form.Dropdown.Item key={template.id} value={template.id} title={template.name} />
         ))}
       </Form.Dropdown>
 
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { Action, ActionPanel, Color, Detail, Icon, openExtensionPreferences } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { syncHistoryIndex } from "./utils/historyIndex";
+import { getQueue } from "./utils/queue";
+import { getCostByModel, getCostByMonth, getLibraryStats } from "./utils/stats";
+import { formatCost, getBudgetStatus, getModelPrices, getUsage } from "./utils/usage";
+import { formatDuration } from "./utils/formatting";
+import { BudgetStatus, CostRow, LibraryStats, StatsRow } from "./types";
+
+interface Stats {
+  library: LibraryStats;
+  costByMonth: CostRow[];
+  costByModel: CostRow[];
+  budget: BudgetStatus;
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function formatStatsTable(heading: string, rows: StatsRow[]): string {
+  return [
+    `| ${heading} | Recordings | Duration | Words |`,
+    "| --- | ---: | ---: | ---: |",
+    ...rows.map(
+      (row) =>
+        `| ${row.title} | ${row.recordings} | ${formatDuration(Math.round(row.seconds))} | ${formatNumber(row.words)} |`,
+    ),
+  ].join("\n");
+}
+
+function formatPrice(pricePerMinute?: number): string {
+  if (pricePerMinute === undefined) return "Not Set";
+  return pricePerMinute === 0 ? "Free" : `$${pricePerMinute}`;
+}
+
+function formatRowCost(row: CostRow): string {
+  if (!row.hasUnpricedUsage) return formatCost(row.cost);
+  return row.cost > 0 ? `${formatCost(row.cost)} + unpriced` : "Unknown";
+}
+
+function formatCostTable(heading: string, rows: CostRow[], showPrices = false): string {
+  return [
+    `| ${heading} |${showPrices ? " Price per Minute |" : ""} Audio | Requests | Estimated Cost |`,
+    `| --- |${showPrices ? " ---: |" : ""} ---: | ---: | ---: |`,
+    ...rows.map(
+      (row) =>
+        `| ${row.title} |${showPrices ? ` ${formatPrice(row.pricePerMinute)} |` : ""} ${formatDuration(Math.round(row.seconds))} | ${row.requests} | ${formatRowCost(row)} |`,
+    ),
+  ].join("\n");
+}
+
+function formatStatsMarkdown({ library, costByMonth, costByModel, budget }: Stats): string {
+  const sections = [
+    "# Transcription Stats",
+    [
+      "| Library | |",
+      "| --- | ---: |",
+      `| Recordings | ${library.recordings} (${library.transcribed} transcribed) |`,
+      `| Recorded | ${formatDuration(Math.round(library.seconds))} |`,
+      `| Words Transcribed | ${formatNumber(library.words)} |`,
+      `| Average Speed | ${library.wordsPerMinute === null ? "–" : `${formatNumber(library.wordsPerMinute)} words per minute`} |`,
+    ].join("\n"),
+    "## By Week",
+    formatStatsTable("Week", library.byWeek),
+  ];
+
+  if (library.byLanguage.length > 0) {
+    sections.push("## By Language", formatStatsTable("Language", library.byLanguage));
+  }
+
+  if (library.byModel.length > 0) {
+    sections.push("## By Model", formatStatsTable("Model", library.byModel));
+  }
+
+  sections.push(
+    "## API Cost",
+    budget.budget !== undefined
+      ? `${budget.isExceeded ? "**Over budget:** " : ""}${formatCost(budget.spent)} of the ${formatCost(budget.budget)} monthly budget spent this month.`
+      : `${formatCost(budget.spent)} spent this month.`,
+    formatCostTable("Month", costByMonth),
+  );
+
+  if (costByModel.length > 0) {
+    sections.push(formatCostTable("Model", costByModel, true));
+  }
+
+  sections.push(
+    "_Estimated from the length of the audio sent to each provider and the price per minute of its model. Every transcription is counted, including re-transcriptions and recordings deleted since. Live transcription previews are not tracked._",
+  );
+
+  return sections.join("\n\n");
+}
+
+export default function Command() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadStats = async () => {
+    setIsLoading(true);
+
+    try {
+      const [files, usage, budget] = await Promise.all([
+        getQueue().then(syncHistoryIndex),
+        getUsage(),
+        getBudgetStatus(),
+      ]);
+      const prices = getModelPrices();
+
+      setStats({
+        library: getLibraryStats(files),
+        costByMonth: getCostByMonth(usage, prices),
+        costByModel: getCostByModel(usage, prices),
+        budget,
+      });
+    } catch (error) {
+      console.error("Error loading stats:", error);
+      await showFailureToast(error, { title: "Failed to Load Stats" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const markdown = stats ? formatStatsMarkdown(stats) : "";
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={
+        stats?.budget.budget !== undefined ? (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Spent This Month" text={formatCost(stats.budget.spent)} />
+            <Detail.Metadata.Label title="Monthly Budget" text={formatCost(stats.budget.budget)} />
+            <Detail.Metadata.TagList title="Status">
+              <Detail.Metadata.TagList.Item
+                text={stats.budget.isExceeded ? "Over Budget" : "Within Budget"}
+                color={stats.budget.isExceeded ? Color.Red : Color.Green}
+              />
+            </Detail.Metadata.TagList>
+          </Detail.Metadata>
+        ) : undefined
+      }
+      actions={
+        <ActionPanel>
+          <Action title="Refresh" icon={Icon.RotateClockwise} onAction={loadStats} />
+          <Action.CopyToClipboard title="Copy as Markdown" content={markdown} />
+          <Action title="Edit Prices and Budget" icon={Icon.Gear} onAction={openExtensionPreferences} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -1,15 +1,59 @@
-import { TRANSCRIPTION_MODELS } from "./constants";
+import {
+  HISTORY_DATE_FILTERS,
+  HISTORY_SORT_OPTIONS,
+  RECORDING_FORMATS,
+  TRANSCRIPTION_MODELS,
+  TRANSCRIPTION_MODES,
+  TRANSCRIPTION_PROVIDERS,
+} from "./constants";
 
-export type TranscriptionModelId = (typeof TRANSCRIPTION_MODELS)[number]["id"];
+export type GroqModelId = (typeof TRANSCRIPTION_MODELS)[number]["id"];
+
+export type TranscriptionProviderId = (typeof TRANSCRIPTION_PROVIDERS)[number]["id"];
+
+export type TranscriptionMode = (typeof TRANSCRIPTION_MODES)[number]["value"];
+
+export type RecordingFormat = (typeof RECORDING_FORMATS)[number]["value"];
+
+export type HistoryDateFilter = (typeof HISTORY_DATE_FILTERS)[number]["value"];
+
+export type HistorySortOrder = (typeof HISTORY_SORT_OPTIONS)[number]["value"];
+
+// Models are declared by each provider, custom endpoints can serve any model name
+export type TranscriptionModelId = string;
 
 export interface Preferences {
-  apiKey: string;
-  model: TranscriptionModelId;
+  provider?: TranscriptionProviderId;
+  mode?: TranscriptionMode;
+  apiKey?: string;
+  model: GroqModelId;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModels?: string;
+  postProcessingProvider?: TranscriptionProviderId;
+  postProcessingModel?: string;
+  localServerUrl?: string;
+  localModels?: string;
   language: string;
   promptText?: string;
   userTerms?: string;
   enableContext?: boolean;
+  liveTranscription?: boolean;
+  preprocessingPreset?: string;
   tempDirectory?: string;
+  retentionDays?: string;
+  maxStorageMB?: string;
+  notesFolder?: string;
+  noteFilenameTemplate?: string;
+  autoExportNotes?: boolean;
+  modelPrices?: string;
+  monthlyBudget?: string;
+  inputDevice?: string;
+  recordingFormat?: RecordingFormat;
+  autoStopOnSilence?: boolean;
+  trimSilence?: boolean;
+  silenceThreshold?: string;
+  silenceTimeout?: string;
 }
 
 export interface TranscriptionFile {
@@ -21,6 +65,39 @@ export interface TranscriptionFile {
   sizeInBytes: number;
   wordCount: number;
   transcription: string | null;
+  postProcessing?: PostProcessingResult;
+  preprocessing?: PreprocessingResult;
+  queueJob?: QueueJob;
+  // Left unfinished when the recorder was closed, needs recovering before it can be transcribed
+  isInterrupted?: boolean;
+  // The audio was removed, by the retention policy or by hand, and only the transcript is left
+  isAudioDeleted?: boolean;
+  mode?: TranscriptionMode;
+  language?: string;
+  detectedLanguage?: string;
+  model?: TranscriptionModelId;
+  segments?: TranscriptionSegment[];
+  metadata?: RecordingMetadata;
+}
+
+export interface RecordingMetadata {
+  title?: string;
+  tags?: string[];
+  notes?: string;
+  isFavorite?: boolean;
+}
+
+export interface HistorySection {
+  id: string;
+  title: string;
+  files: TranscriptionFile[];
+}
+
+// TranscriptionFile as cached on disk, with the modification times it was read at
+export interface HistoryIndexEntry extends Omit<TranscriptionFile, "recordedAt" | "queueJob"> {
+  recordedAt: string;
+  audioModifiedAt: number | null;
+  transcriptionModifiedAt: number | null;
 }
 
 export interface TranscriptionResult {
@@ -30,10 +107,90 @@ export interface TranscriptionResult {
   language?: string;
   prompt?: string;
   model?: TranscriptionModelId;
+  provider?: TranscriptionProviderId;
+  mode?: TranscriptionMode;
+  detectedLanguage?: string;
+  duration?: number;
+  segments?: TranscriptionSegment[];
+  preprocessing?: PreprocessingResult;
+  postProcessing?: PostProcessingResult;
+  metadata?: RecordingMetadata;
+  // Every version of the text, oldest first, the last one matching the fields above
+  revisions?: TranscriptionRevision[];
+}
+
+export type TranscriptionRevisionSource = "transcription" | "edit" | "restore";
+
+// Snapshot of a transcription. Post-processing is left out since it is derived from the text.
+export interface TranscriptionRevision
+  extends Omit<TranscriptionResult, "audioFile" | "postProcessing" | "metadata" | "revisions"> {
+  id: string;
+  source: TranscriptionRevisionSource;
+  // Revision restored by a "restore" revision
+  restoredFrom?: string;
+}
+
+// Sidecar JSON next to a recording. It only holds metadata until the recording is transcribed.
+export type TranscriptionSidecar = Partial<TranscriptionResult>;
+
+export interface TextDiffPart {
+  type: "unchanged" | "removed" | "added";
+  words: string[];
+}
+
+export type BulkItemOutcome = "done" | "queued" | "skipped";
+
+export interface BulkOperationResult {
+  done: number;
+  queued: number;
+  skipped: number;
+  failures: { file: TranscriptionFile; error: string }[];
+  // Problems with a follow-up step of recordings that were still processed
+  warnings: { file: TranscriptionFile; error: string }[];
+}
+
+export type QueueJobStatus = "pending" | "failed";
+
+export interface QueueJobSettings {
+  language?: string;
+  prompt?: string;
+  model?: TranscriptionModelId;
+  provider?: TranscriptionProviderId;
+  mode?: TranscriptionMode;
+  templateId?: string;
+  preprocessingPresetId?: string;
+}
+
+export interface QueueJob {
+  id: string;
+  audioFile: string;
+  settings: QueueJobSettings;
+  status: QueueJobStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  nextAttemptAt: string;
+}
+
+export type ExportFormat = "srt" | "vtt" | "txt" | "json";
+
+export type CueSplitMode = "segment" | "lines";
+
+export interface SubtitleOptions {
+  maxLineLength: number;
+  maxLinesPerCue: number;
+  splitMode: CueSplitMode;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
 }
 
 export enum ErrorTypes {
   SOX_NOT_INSTALLED = "Sox is not installed. Please install it using 'brew install sox' and restart Raycast.",
+  FFMPEG_NOT_INSTALLED = "FFmpeg is needed to import this file. Please install it using 'brew install ffmpeg' and restart Raycast.",
   ALREADY_RECORDING = "Recording is already in progress",
   EMPTY_RECORDING = "The recording file is empty",
   NO_RECORDING_FILE = "No recording file was created",
@@ -46,9 +203,196 @@ export enum ErrorTypes {
   AUDIO_FILE_TOO_SMALL = "Audio file is too small to be valid",
   AUDIO_FILE_INVALID_FORMAT = "Audio file format is invalid",
   AUDIO_FILE_VALIDATION_ERROR = "Failed to validate audio file",
+  INPUT_DEVICE_NOT_FOUND = "Input device is not connected",
 }
 
 export interface AudioValidationResult {
   isValid: boolean;
   error?: ErrorTypes | string;
 }
+
+export interface InputDevice {
+  name: string;
+  isDefault: boolean;
+}
+
+export interface TranscriptionModel {
+  id: TranscriptionModelId;
+  name: string;
+  supportsTranslation?: boolean;
+}
+
+export interface ProviderCapabilities {
+  translation: boolean;
+  timestamps: boolean;
+  prompt: boolean;
+  maxFileSizeBytes?: number;
+}
+
+export interface ProviderTranscriptionRequest {
+  filePath: string;
+  mode: TranscriptionMode;
+  model: TranscriptionModelId;
+  language?: string;
+  prompt?: string;
+}
+
+export interface TranscriptionSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+export interface ProviderTranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: TranscriptionSegment[];
+}
+
+export interface TranscriptionProgress {
+  chunk: number;
+  totalChunks: number;
+}
+
+export interface RetentionSettings {
+  maxAgeDays?: number;
+  maxStorageBytes?: number;
+}
+
+// Audio sent to a provider in one month, kept so cost survives recordings being deleted
+export interface UsageRecord {
+  month: string; // YYYY-MM
+  provider: TranscriptionProviderId;
+  model: TranscriptionModelId;
+  seconds: number;
+  requests: number;
+}
+
+export interface BudgetStatus {
+  spent: number;
+  budget?: number;
+  isExceeded: boolean;
+}
+
+export interface StatsRow {
+  key: string;
+  title: string;
+  recordings: number;
+  seconds: number;
+  words: number;
+}
+
+export interface LibraryStats {
+  recordings: number;
+  transcribed: number;
+  seconds: number;
+  words: number;
+  // Only counts recordings with a transcript, null when there are none
+  wordsPerMinute: number | null;
+  byLanguage: StatsRow[];
+  byModel: StatsRow[];
+  byWeek: StatsRow[];
+}
+
+export interface CostRow {
+  key: string;
+  title: string;
+  seconds: number;
+  requests: number;
+  cost: number;
+  // Some of the audio was sent to a model without a price, so it isn't part of the cost
+  hasUnpricedUsage: boolean;
+  // Only set on rows for a single model, 0 when it is free
+  pricePerMinute?: number;
+}
+
+export interface NotesSettings {
+  folder?: string;
+  filenameTemplate: string;
+  autoExport: boolean;
+}
+
+export interface RetentionResult {
+  deletedCount: number;
+  freedBytes: number;
+}
+
+export interface SilenceSettings {
+  autoStop: boolean;
+  trim: boolean;
+  thresholdPercent: number;
+  timeoutSeconds: number;
+}
+
+export interface TrimmedAudio {
+  filePath: string;
+  // Silence cut from the start, segment timestamps are shifted by it to match the recording
+  leadingSilenceSeconds: number;
+}
+
+export interface AudioChunk {
+  filePath: string;
+  start: number;
+  duration: number;
+}
+
+export interface WavLayout {
+  dataOffset: number;
+  // Data size declared in the header, wrong when sox was killed before closing the file
+  declaredDataSize: number;
+  byteRate: number;
+  blockAlign: number;
+  formatChunk: Buffer;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  name: string;
+  capabilities: ProviderCapabilities;
+  defaultChatModel?: string;
+  getModels: () => TranscriptionModel[];
+  getConfigurationError: () => string | null;
+  transcribe: (request: ProviderTranscriptionRequest) => Promise<ProviderTranscriptionResponse>;
+  complete?: (request: ChatCompletionRequest) => Promise<string>;
+}
+
+export interface PreprocessingPreset {
+  id: string;
+  name: string;
+  description: string;
+  resample?: boolean;
+  highPassHz?: number;
+  // Amount passed to sox noisered, from 0 to 1
+  noiseReduction?: number;
+  normalizeDb?: number;
+}
+
+export interface PreprocessingResult {
+  presetId: string;
+  presetName: string;
+  filePath: string;
+}
+
+export interface PostProcessingTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+export interface PostProcessingResult {
+  text: string;
+  templateId: string;
+  templateName: string;
+  model: string;
+  timestamp: string;
+}
@@ -0,0 +1,167 @@
+import fs from "fs-extra";
+import { CHUNK_CONFIG } from "../../constants";
+import {
+  ProviderTranscriptionRequest,
+  ProviderTranscriptionResponse,
+  TranscriptionProgress,
+  TranscriptionProvider,
+  TranscriptionSegment,
+} from "../../types";
+import { checkSoxInstalled, getAudioDuration, getChunkDirectory, splitAudioFile } from "../audio";
+
+// Longest run of repeated words looked for when chunks come back without segments
+const MAX_TEXT_OVERLAP_WORDS = 40;
+
+/**
+ * Works out the chunk length for a recording, or null when it can be uploaded in one request
+ * @param filePath Audio file to transcribe
+ * @param maxFileSizeBytes Upload limit declared by the provider
+ * @returns Chunk length in seconds, or null if no split is needed
+ */
+async function getChunkSeconds(filePath: string, maxFileSizeBytes?: number): Promise<number | null> {
+  const [{ size }, duration] = await Promise.all([fs.stat(filePath), getAudioDuration(filePath)]);
+
+  let chunkSeconds: number = CHUNK_CONFIG.MAX_CHUNK_SECONDS;
+
+  if (maxFileSizeBytes && duration > 0) {
+    const bytesPerSecond = size / duration;
+    const secondsWithinLimit = Math.floor((maxFileSizeBytes * CHUNK_CONFIG.SIZE_SAFETY_RATIO) / bytesPerSecond);
+    chunkSeconds = Math.min(chunkSeconds, secondsWithinLimit);
+  }
+
+  if (duration <= chunkSeconds) {
+    return null;
+  }
+
+  return Math.max(chunkSeconds, CHUNK_CONFIG.OVERLAP_SECONDS * 4);
+}
+
+function buildChunkPrompt(basePrompt: string | undefined, previousText: string): string | undefined {
+  const tail = previousText.slice(-CHUNK_CONFIG.PROMPT_TAIL_CHARS).trim();
+  const prompt = [basePrompt?.trim(), tail].filter(Boolean).join(" ");
+  return prompt !== "" ? prompt : undefined;
+}
+
+/**
+ * Removes the words repeated at the start of a chunk because of the audio overlap
+ * @param previousText Text stitched so far
+ * @param nextText Text of the following chunk
+ * @returns The following chunk's text without the repeated prefix
+ */
+export function removeTextOverlap(previousText: string, nextText: string): string {
+  const previousWords = previousText.split(/\s+/).filter(Boolean);
+  const nextWords = nextText.split(/\s+/).filter(Boolean);
+  const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+  const maxOverlap = Math.min(MAX_TEXT_OVERLAP_WORDS, previousWords.length, nextWords.length);
+
+  for (let length = maxOverlap; length > 0; length--) {
+    const previousTail = previousWords.slice(-length).map(normalize).join(" ");
+    const nextHead = nextWords.slice(0, length).map(normalize).join(" ");
+    if (previousTail === nextHead) {
+      return nextWords.slice(length).join(" ");
+    }
+  }
+
+  return nextText.trim();
+}
+
+/**
+ * Joins chunk transcriptions, shifting segment timestamps by each chunk's start
+ * and keeping the overlapping audio from only one side of each cut
+ * @param chunks Chunk start times and their transcriptions, in order
+ * @returns A single transcription covering the whole recording
+ */
+export function stitchChunkTranscriptions(
+  chunks: { start: number; duration: number; response: ProviderTranscriptionResponse }[],
+): ProviderTranscriptionResponse {
+  const hasSegments = chunks.every((chunk) => chunk.response.segments && chunk.response.segments.length > 0);
+
+  if (!hasSegments) {
+    const text = chunks.reduce((stitched, chunk) => {
+      const chunkText = chunk.response.text.trim();
+      return stitched === "" ? chunkText : `${stitched} ${removeTextOverlap(stitched, chunkText)}`.trim();
+    }, "");
+
+    const last = chunks[chunks.length - 1];
+    return { text, language: chunks[0]?.response.language, duration: last ? last.start + last.duration : undefined };
+  }
+
+  const segments: TranscriptionSegment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const next = chunks[index + 1];
+    // Cut in the middle of the overlap shared with the neighbouring chunks
+    const cutStart =
+      index === 0 ? 0 : chunk.start + (chunks[index - 1].start + chunks[index - 1].duration - chunk.start) / 2;
+    const cutEnd = next ? next.start + (chunk.start + chunk.duration - next.start) / 2 : Infinity;
+
+    for (const segment of chunk.response.segments ?? []) {
+      const start = segment.start + chunk.start;
+      if (start < cutStart || start >= cutEnd) continue;
+
+      segments.push({
+        ...segment,
+        id: segments.length,
+        start,
+        end: segment.end + chunk.start,
+      });
+    }
+  });
+
+  const last = chunks[chunks.length - 1];
+
+  return {
+    text: segments
+      .map((segment) => segment.text.trim())
+      .filter(Boolean)
+      .join(" "),
+    language: chunks[0]?.response.language,
+    duration: last.start + last.duration,
+    segments,
+  };
+}
+
+/**
+ * Transcribes a recording, splitting it into overlapping chunks when it is too long or too large
+ * for a single upload. Each chunk is sent with the end of the previous chunk's text as its prompt.
+ * @param provider Provider to send the audio to
+ * @param request Transcription request for the whole recording
+ * @param onProgress Called before each chunk is uploaded
+ * @returns The stitched transcription
+ */
+export async function transcribeWithChunking(
+  provider: TranscriptionProvider,
+  request: ProviderTranscriptionRequest,
+  onProgress?: (progress: TranscriptionProgress) => void,
+): Promise<ProviderTranscriptionResponse> {
+  const soxPath = await checkSoxInstalled();
+  const chunkSeconds = soxPath ? await getChunkSeconds(request.filePath, provider.capabilities.maxFileSizeBytes) : null;
+
+  if (!chunkSeconds) {
+    return provider.transcribe(request);
+  }
+
+  try {
+    const audioChunks = await splitAudioFile(request.filePath, chunkSeconds, CHUNK_CONFIG.OVERLAP_SECONDS);
+    const transcribedChunks: { start: number; duration: number; response: ProviderTranscriptionResponse }[] = [];
+    let previousText = "";
+
+    for (const [index, chunk] of audioChunks.entries()) {
+      onProgress?.({ chunk: index + 1, totalChunks: audioChunks.length });
+
+      const response = await provider.transcribe({
+        ...request,
+        filePath: chunk.filePath,
+        prompt: provider.capabilities.prompt ? buildChunkPrompt(request.prompt, previousText) : undefined,
+      });
+
+      transcribedChunks.push({ start: chunk.start, duration: chunk.duration, response });
+      previousText = response.text;
+    }
+
+    return stitchChunkTranscriptions(transcribedChunks);
+  } finally {
+    await fs.remove(getChunkDirectory(request.filePath));
+  }
+}
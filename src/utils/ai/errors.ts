@@ -0,0 +1,81 @@
+import { APIError } from "groq-sdk";
+
+/**
+ * Error from a provider request, keeping the HTTP status and retry hint so failed
+ * transcriptions can be queued and retried
+ */
+export class ProviderRequestError extends Error {
+  readonly status?: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, options: { status?: number; retryAfterSeconds?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ProviderRequestError";
+    this.status = options.status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+/**
+ * Parses a retry-after header, given either in seconds or as an HTTP date
+ * @param value Header value
+ * @returns Seconds to wait, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+export function toProviderRequestError(error: unknown): unknown {
+  if (error instanceof APIError) {
+    return new ProviderRequestError(error.message, {
+      status: error.status,
+      retryAfterSeconds: parseRetryAfter(error.headers?.["retry-after"]),
+      cause: error,
+    });
+  }
+
+  return error;
+}
+
+function findProviderRequestError(error: unknown): ProviderRequestError | undefined {
+  let current: unknown = error;
+
+  while (current instanceof Error) {
+    if (current instanceof ProviderRequestError) return current;
+    current = current.cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Tells whether a transcription failure is worth retrying later: network failures,
+ * rate limits and server errors are, invalid files and missing configuration are not
+ * @param error Error thrown while transcribing
+ */
+export function isRetryableError(error: unknown): boolean {
+  const requestError = findProviderRequestError(error);
+
+  if (requestError) {
+    return requestError.status === undefined || requestError.status === 429 || requestError.status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /fetch failed|network|ENOTFOUND|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN/i.test(message);
+}
+
+export function getRetryAfterSeconds(error: unknown): number | undefined {
+  return findProviderRequestError(error)?.retryAfterSeconds;
+}
@@ -0,0 +1,69 @@
+import { getPreferenceValues } from "@raycast/api";
+import { POST_PROCESSING_SYSTEM_PROMPT } from "../../constants";
+import { PostProcessingResult, PostProcessingTemplate, Preferences, TranscriptionResult } from "../../types";
+import { getProvider } from "./providers";
+import { saveTranscription } from "./transcription";
+
+/**
+ * Rewrites transcribed text with a chat-completion model following a template's instructions
+ * @param text Raw transcription text
+ * @param template Template with the rewrite instructions
+ * @returns The processed text and which template and model produced it
+ */
+export async function postProcessText(text: string, template: PostProcessingTemplate): Promise<PostProcessingResult> {
+  const preferences = getPreferenceValues<Preferences>();
+  const provider = getProvider(preferences.postProcessingProvider ?? "groq");
+
+  if (!provider.complete) {
+    throw new Error(`${provider.name} does not support post-processing. Choose another post-processing provider.`);
+  }
+
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) {
+    throw new Error(configurationError);
+  }
+
+  const model = preferences.postProcessingModel?.trim() || provider.defaultChatModel;
+  if (!model) {
+    throw new Error("Post-processing model is not set. Please set it in the extension preferences.");
+  }
+
+  try {
+    const processedText = await provider.complete({
+      model,
+      systemPrompt: POST_PROCESSING_SYSTEM_PROMPT,
+      userPrompt: `${template.prompt}\n\nTranscribed text:\n${text}`,
+    });
+
+    return {
+      text: processedText.trim(),
+      templateId: template.id,
+      templateName: template.name,
+      model,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error("Post-processing error:", error);
+    throw new Error(`Failed to post-process transcription: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Post-processes a saved transcription and stores the result next to the raw text in its sidecar JSON
+ * @param audioFilePath Recording the transcription belongs to
+ * @param transcription Saved transcription with the raw text
+ * @param template Template to apply
+ * @returns The updated transcription
+ */
+export async function postProcessTranscription(
+  audioFilePath: string,
+  transcription: TranscriptionResult,
+  template: PostProcessingTemplate,
+): Promise<TranscriptionResult> {
+  const postProcessing = await postProcessText(transcription.text, template);
+  const updated: TranscriptionResult = { ...transcription, postProcessing };
+
+  await saveTranscription(audioFilePath, updated);
+
+  return updated;
+}
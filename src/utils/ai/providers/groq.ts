@@ -0,0 +1,85 @@
+import Groq from "groq-sdk";
+import fs from "fs-extra";
+import { getPreferenceValues } from "@raycast/api";
+import { TRANSCRIPTION_MODELS } from "../../../constants";
+import { Preferences, ProviderTranscriptionResponse, TranscriptionProvider } from "../../../types";
+import { toProviderRequestError } from "../errors";
+
+export const groqProvider: TranscriptionProvider = {
+  id: "groq",
+  name: "Groq",
+  capabilities: {
+    translation: true,
+    timestamps: true,
+    prompt: true,
+    maxFileSizeBytes: 25 * 1024 * 1024,
+  },
+  defaultChatModel: "llama-3.3-70b-versatile",
+
+  getModels: () =>
+    TRANSCRIPTION_MODELS.map((model) => ({
+      id: model.id,
+      name: model.name,
+      supportsTranslation: model.supportsTranslation,
+    })),
+
+  getConfigurationError: () => {
+    const preferences = getPreferenceValues<Preferences>();
+    return preferences.apiKey ? null : "Groq API key is not set. Please set it in the extension preferences.";
+  },
+
+  transcribe: async (request) => {
+    const preferences = getPreferenceValues<Preferences>();
+
+    const client = new Groq({
+      apiKey: preferences.apiKey,
+    });
+
+    try {
+      if (request.mode === "translate") {
+        const translation = await client.audio.translations.create({
+          file: fs.createReadStream(request.filePath),
+          model: request.model,
+          response_format: "verbose_json",
+          prompt: request.prompt,
+        });
+
+        return translation as ProviderTranscriptionResponse;
+      }
+
+      const transcription = await client.audio.transcriptions.create({
+        file: fs.createReadStream(request.filePath),
+        model: request.model,
+        response_format: "verbose_json",
+        language: request.language,
+        prompt: request.prompt,
+      });
+
+      return transcription as ProviderTranscriptionResponse;
+    } catch (error) {
+      throw toProviderRequestError(error);
+    }
+  },
+
+  complete: async (request) => {
+    const preferences = getPreferenceValues<Preferences>();
+
+    const client = new Groq({
+      apiKey: preferences.apiKey,
+    });
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+      });
+
+      return completion.choices[0]?.message.content ?? "";
+    } catch (error) {
+      throw toProviderRequestError(error);
+    }
+  },
+};
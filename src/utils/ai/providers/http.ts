@@ -0,0 +1,77 @@
+import fs from "fs-extra";
+import path from "path";
+import { ProviderRequestError, parseRetryAfter } from "../errors";
+
+/**
+ * Sends an audio file as multipart form data to an OpenAI-style transcription endpoint
+ * @param url Full endpoint URL
+ * @param filePath Path of the audio file to upload
+ * @param fields Additional form fields, undefined values are skipped
+ * @param apiKey Optional bearer token
+ * @returns Parsed JSON response body
+ */
+export async function postAudioForm<T>(
+  url: string,
+  filePath: string,
+  fields: Record<string, string | undefined>,
+  apiKey?: string,
+): Promise<T> {
+  const fileBuffer = await fs.readFile(filePath);
+
+  const form = new FormData();
+  form.append("file", new Blob([fileBuffer]), path.basename(filePath));
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== "") {
+      form.append(key, value);
+    }
+  }
+
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  return sendRequest<T>(url, { method: "POST", headers, body: form });
+}
+
+export async function postJson<T>(url: string, body: unknown, apiKey?: string): Promise<T> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  return sendRequest<T>(url, { method: "POST", headers, body: JSON.stringify(body) });
+}
+
+async function sendRequest<T>(url: string, init: RequestInit): Promise<T> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // Network failures have no status, which marks them as retryable
+    throw new ProviderRequestError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new ProviderRequestError(`${response.status} ${response.statusText}: ${body}`, {
+      status: response.status,
+      retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+    });
+  }
+
+  return (await response.json()) as T;
+}
+
+export function joinUrl(baseUrl: string, endpoint: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/${endpoint.replace(/^\/+/, "")}`;
+}
+
+export function parseModelList(models?: string): string[] {
+  return (models ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter((model) => model !== "");
+}
@@ -0,0 +1,62 @@
+import { getPreferenceValues } from "@raycast/api";
+import {
+  Preferences,
+  TranscriptionMode,
+  TranscriptionModel,
+  TranscriptionModelId,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+} from "../../../types";
+import { groqProvider } from "./groq";
+import { localProvider } from "./local";
+import { openaiProvider } from "./openai";
+
+const PROVIDERS: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  groq: groqProvider,
+  openai: openaiProvider,
+  local: localProvider,
+};
+
+export function getProvider(providerId?: TranscriptionProviderId): TranscriptionProvider {
+  const preferences = getPreferenceValues<Preferences>();
+  return PROVIDERS[providerId ?? preferences.provider ?? "groq"] ?? groqProvider;
+}
+
+export function getProviderModels(
+  providerId?: TranscriptionProviderId,
+  mode: TranscriptionMode = "transcribe",
+): TranscriptionModel[] {
+  const models = getProvider(providerId).getModels();
+  if (mode === "translate") {
+    const translationModels = models.filter((model) => model.supportsTranslation !== false);
+    return translationModels.length > 0 ? translationModels : models;
+  }
+  return models;
+}
+
+/**
+ * Picks the model to use for a provider, keeping the requested one only if the provider declares it
+ * @param providerId Provider to resolve the model for
+ * @param requestedModel Model stored with a recording or selected in a form
+ * @param mode Translation narrows the choice to models that can translate
+ * @returns A model id supported by the provider
+ */
+export function resolveProviderModel(
+  providerId?: TranscriptionProviderId,
+  requestedModel?: TranscriptionModelId,
+  mode: TranscriptionMode = "transcribe",
+): TranscriptionModelId {
+  const provider = getProvider(providerId);
+  const models = getProviderModels(provider.id, mode);
+  const preferences = getPreferenceValues<Preferences>();
+
+  if (requestedModel && models.some((model) => model.id === requestedModel)) {
+    return requestedModel;
+  }
+
+  if (provider.id === "groq" && models.some((model) => model.id === preferences.model)) {
+    return preferences.model;
+  }
+
+  return models[0].id;
+}
@@ -0,0 +1,51 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Preferences, ProviderTranscriptionResponse, TranscriptionProvider } from "../../../types";
+import { parseModelList, postAudioForm } from "./http";
+
+// whisper.cpp's server listens here by default, faster-whisper servers expose /v1/audio/transcriptions
+const DEFAULT_SERVER_URL = "http://127.0.0.1:8080/inference";
+const SERVER_DEFAULT_MODEL = "default";
+
+export const localProvider: TranscriptionProvider = {
+  id: "local",
+  name: "Local Whisper Server",
+  capabilities: {
+    translation: true,
+    timestamps: true,
+    prompt: true,
+  },
+
+  getModels: () => {
+    const { localModels } = getPreferenceValues<Preferences>();
+    const models = parseModelList(localModels);
+    if (models.length === 0) {
+      return [{ id: SERVER_DEFAULT_MODEL, name: "Server Default" }];
+    }
+    return models.map((id) => ({ id, name: id }));
+  },
+
+  getConfigurationError: () => null,
+
+  transcribe: async (request) => {
+    const preferences = getPreferenceValues<Preferences>();
+    const serverUrl = preferences.localServerUrl?.trim() || DEFAULT_SERVER_URL;
+    const isTranslation = request.mode === "translate";
+    // OpenAI-style servers have a separate translations endpoint, whisper.cpp takes a translate flag
+    const isOpenAIStyle = /\/audio\/transcriptions\/?$/.test(serverUrl);
+
+    return postAudioForm<ProviderTranscriptionResponse>(
+      isTranslation && isOpenAIStyle
+        ? serverUrl.replace(/\/audio\/transcriptions\/?$/, "/audio/translations")
+        : serverUrl,
+      request.filePath,
+      {
+        // whisper.cpp ignores the model field, faster-whisper servers require one
+        model: request.model === SERVER_DEFAULT_MODEL ? undefined : request.model,
+        response_format: "verbose_json",
+        language: isTranslation && isOpenAIStyle ? undefined : request.language,
+        prompt: request.prompt,
+        translate: isTranslation && !isOpenAIStyle ? "true" : undefined,
+      },
+    );
+  },
+};
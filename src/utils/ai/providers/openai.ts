@@ -0,0 +1,69 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Preferences, ProviderTranscriptionResponse, TranscriptionProvider } from "../../../types";
+import { joinUrl, parseModelList, postAudioForm, postJson } from "./http";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "whisper-1";
+
+export const openaiProvider: TranscriptionProvider = {
+  id: "openai",
+  name: "OpenAI-Compatible",
+  capabilities: {
+    translation: true,
+    timestamps: true,
+    prompt: true,
+    maxFileSizeBytes: 25 * 1024 * 1024,
+  },
+  defaultChatModel: "gpt-4o-mini",
+
+  getModels: () => {
+    const { openaiModels } = getPreferenceValues<Preferences>();
+    const models = parseModelList(openaiModels);
+    return (models.length > 0 ? models : [DEFAULT_MODEL]).map((id) => ({ id, name: id }));
+  },
+
+  getConfigurationError: () => {
+    const preferences = getPreferenceValues<Preferences>();
+    // Self-hosted endpoints often run without authentication
+    if (preferences.openaiApiKey || preferences.openaiBaseUrl?.trim()) {
+      return null;
+    }
+    return "OpenAI-compatible API key is not set. Please set it in the extension preferences.";
+  },
+
+  transcribe: async (request) => {
+    const preferences = getPreferenceValues<Preferences>();
+    const baseUrl = preferences.openaiBaseUrl?.trim() || DEFAULT_BASE_URL;
+
+    return postAudioForm<ProviderTranscriptionResponse>(
+      joinUrl(baseUrl, request.mode === "translate" ? "audio/translations" : "audio/transcriptions"),
+      request.filePath,
+      {
+        model: request.model,
+        response_format: "verbose_json",
+        language: request.mode === "translate" ? undefined : request.language,
+        prompt: request.prompt,
+      },
+      preferences.openaiApiKey,
+    );
+  },
+
+  complete: async (request) => {
+    const preferences = getPreferenceValues<Preferences>();
+    const baseUrl = preferences.openaiBaseUrl?.trim() || DEFAULT_BASE_URL;
+
+    const completion = await postJson<{ choices: { message: { content: string | null } }[] }>(
+      joinUrl(baseUrl, "chat/completions"),
+      {
+        model: request.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+      },
+      preferences.openaiApiKey,
+    );
+
+    return completion.choices[0]?.message.content ?? "";
+  },
+};
@@ -1,8 +1,24 @@
-import Groq from "groq-sdk";
 import fs from "fs-extra";
 import { getPreferenceValues } from "@raycast/api";
-import { Preferences, TranscriptionModelId, TranscriptionResult } from "../../types";
+import {
+  Preferences,
+  TranscriptionMode,
+  TranscriptionModelId,
+  TranscriptionProgress,
+  TranscriptionProviderId,
+  TranscriptionResult,
+  TranscriptionRevisionSource,
+  TranscriptionSegment,
+} from "../../types";
 import { buildCompletePrompt } from "../../constants";
+import { getProvider, resolveProviderModel } from "./providers";
+import { transcribeWithChunking } from "./chunking";
+import { getPreprocessingPreset, preprocessAudio } from "../preprocessing";
+import { getAudioDuration, getSilenceSettings, getTranscriptionFilePath, trimSilence } from "../audio";
+import { refreshHistoryEntry } from "../historyIndex";
+import { readTranscriptionSidecar } from "../metadata";
+import { createRevision, getRevisions } from "../revisions";
+import { recordUsage } from "../usage";
 
 export async function transcribeAudio(
   filePath: string,
@@ -10,46 +26,45 @@ export async function transcribeAudio(
     overrideLanguage?: string;
     overridePrompt?: string;
     overrideModel?: TranscriptionModelId;
+    overrideProvider?: TranscriptionProviderId;
+    mode?: TranscriptionMode;
+    // Preset applied to a copy of the recording before upload
+    preprocessingPresetId?: string;
     promptOptions?: {
       promptText?: string;
       userTerms?: string;
       highlightedText?: string;
     };
+    onProgress?: (progress: TranscriptionProgress) => void;
   },
 ): Promise<TranscriptionResult> {
   const preferences = getPreferenceValues<Preferences>();
+  const provider = getProvider(options?.overrideProvider);
 
-  if (!preferences.apiKey) {
-    throw new Error("Groq API key is not set. Please set it in the extension preferences.");
+  const mode = options?.mode ?? "transcribe";
+
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) {
+    throw new Error(configurationError);
   }
 
-  try {
-    const client = new Groq({
-      apiKey: preferences.apiKey,
-    });
+  if (mode === "translate" && !provider.capabilities.translation) {
+    throw new Error(`${provider.name} does not support translation.`);
+  }
 
-    const fileBuffer = fs.createReadStream(filePath);
+  const preset = getPreprocessingPreset(options?.preprocessingPresetId);
+  const preprocessedFilePath = preset ? await preprocessAudio(filePath, preset) : filePath;
 
-    const model = options?.overrideModel ?? preferences.model;
+  // Silence is trimmed from a throwaway copy, the recording keeps its full length
+  const silenceSettings = getSilenceSettings();
+  const trimmed = silenceSettings.trim ? await trimSilence(preprocessedFilePath, silenceSettings) : null;
+  const uploadFilePath = trimmed?.filePath ?? preprocessedFilePath;
 
-    const transcriptionOptions: {
-      file: fs.ReadStream;
-      model: TranscriptionModelId;
-      response_format: "verbose_json" | "json" | "text";
-      language?: string;
-      prompt?: string;
-    } = {
-      file: fileBuffer,
-      model: model,
-      response_format: "verbose_json",
-    };
+  try {
+    const model = resolveProviderModel(provider.id, options?.overrideModel, mode);
 
     const language = options?.overrideLanguage ?? preferences.language;
 
-    if (language && language !== "auto") {
-      transcriptionOptions.language = language;
-    }
-
     const prompt =
       options?.overridePrompt ??
       buildCompletePrompt(
@@ -58,11 +73,17 @@ export async function transcribeAudio(
         options?.promptOptions?.highlightedText,
       );
 
-    if (prompt && prompt.trim() !== "") {
-      transcriptionOptions.prompt = prompt;
-    }
-
-    const transcription = await client.audio.transcriptions.create(transcriptionOptions);
+    const transcription = await transcribeWithChunking(
+      provider,
+      {
+        filePath: uploadFilePath,
+        mode,
+        model,
+        language: language && language !== "auto" ? language : undefined,
+        prompt: provider.capabilities.prompt && prompt && prompt.trim() !== "" ? prompt : undefined,
+      },
+      options?.onProgress,
+    );
 
     const result: TranscriptionResult = {
       text: transcription.text.trim(),
@@ -71,9 +92,24 @@ export async function transcribeAudio(
       language: language,
       prompt: prompt,
       model: model,
+      provider: provider.id,
+      mode,
+      detectedLanguage: transcription.language,
+      duration: transcription.duration,
+      segments: normalizeSegments(transcription.segments, trimmed?.leadingSilenceSeconds),
+      preprocessing: preset
+        ? { presetId: preset.id, presetName: preset.name, filePath: preprocessedFilePath }
+        : undefined,
     };
 
-    await saveTranscription(filePath, result);
+    await saveTranscription(filePath, result, "transcription");
+
+    // Cost tracking must never fail a transcription that succeeded
+    try {
+      await recordUsage(provider.id, model, transcription.duration ?? (await getAudioDuration(uploadFilePath)));
+    } catch (error) {
+      console.error("Error recording transcription usage:", error);
+    }
 
     return result;
   } catch (error) {
@@ -83,31 +119,95 @@ export async function transcribeAudio(
         error.message.includes("429") ||
         error.message.includes("too many requests"))
     ) {
-      throw new Error("Groq API rate limit exceeded. Please try again later or reduce the length of your audio file.");
+      throw new Error(
+        `${provider.name} rate limit exceeded. Please try again later or reduce the length of your audio file.`,
+        { cause: error },
+      );
+    }
+
+    if (error instanceof Error && (error.message.includes("413") || error.message.includes("too large"))) {
+      throw new Error(`The audio file is larger than ${provider.name} accepts, even after splitting it into chunks.`, {
+        cause: error,
+      });
     }
 
     if (error instanceof Error && error.message.includes("400")) {
-      throw new Error("The API couldn't process this audio file. It might be corrupted or in an unsupported format.");
+      throw new Error("The API couldn't process this audio file. It might be corrupted or in an unsupported format.", {
+        cause: error,
+      });
+    }
+
+    if (error instanceof Error && provider.id === "local" && error.message.includes("fetch failed")) {
+      throw new Error(
+        "Couldn't reach the local Whisper server. Make sure it is running and the server URL is correct.",
+        { cause: error },
+      );
     }
 
     console.error("Transcription error:", error);
-    throw new Error(`Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error,
+    });
+  } finally {
+    if (trimmed) {
+      await fs.remove(trimmed.filePath);
+    }
   }
 }
 
+/**
+ * Keeps only the segment fields we store, providers return tokens and other decoding details too
+ * @param segments Segments from a verbose_json response
+ * @param offsetSeconds Silence trimmed from the start of the upload, added back so timings match the recording
+ * @returns Segments with timings, text and confidence scores
+ */
+function normalizeSegments(segments?: TranscriptionSegment[], offsetSeconds = 0): TranscriptionSegment[] | undefined {
+  if (!segments || segments.length === 0) {
+    return undefined;
+  }
+
+  return segments.map((segment, index) => ({
+    id: segment.id ?? index,
+    start: segment.start + offsetSeconds,
+    end: segment.end + offsetSeconds,
+    text: segment.text.trim(),
+    avg_logprob: segment.avg_logprob,
+    no_speech_prob: segment.no_speech_prob,
+  }));
+}
+
+/**
+ * Writes a transcription to the sidecar JSON of its recording
+ * @param audioFilePath Recording the transcription belongs to
+ * @param transcriptionData Transcription to save
+ * @param revisionSource Records the text as a new revision. Left out for updates that keep the text,
+ * such as post-processing.
+ * @param restoredFrom Id of the revision being restored, for "restore" revisions
+ * @returns Path of the sidecar JSON
+ */
 export async function saveTranscription(
   audioFilePath: string,
   transcriptionData: TranscriptionResult,
+  revisionSource?: TranscriptionRevisionSource,
+  restoredFrom?: string,
 ): Promise<string> {
-  const transcriptionFilePath = audioFilePath.replace(/\.[^.]+$/, ".json");
+  const transcriptionFilePath = getTranscriptionFilePath(audioFilePath);
+  const existing = await readTranscriptionSidecar(audioFilePath);
 
-  const dataToSave = {
+  // Re-transcribing replaces the text but keeps the title, tags, notes and earlier revisions
+  const revisions = getRevisions(existing);
+  const dataToSave: TranscriptionResult = {
     ...transcriptionData,
     audioFile: audioFilePath,
+    metadata: transcriptionData.metadata ?? existing?.metadata,
+    revisions: revisionSource
+      ? [...revisions, createRevision(transcriptionData, revisionSource, restoredFrom)]
+      : revisions,
   };
 
   try {
     await fs.writeJSON(transcriptionFilePath, dataToSave, { spaces: 2 });
+    await refreshHistoryEntry(audioFilePath);
     return transcriptionFilePath;
   } catch (error) {
     console.error(`Error saving transcription for ${audioFilePath}:`, error);
@@ -116,15 +216,71 @@ export async function saveTranscription(
 }
 
 export async function loadTranscription(audioFilePath: string): Promise<TranscriptionResult | null> {
-  const transcriptionFilePath = audioFilePath.replace(/\.[^.]+$/, ".json");
+  const sidecar = await readTranscriptionSidecar(audioFilePath);
 
-  try {
-    if (await fs.pathExists(transcriptionFilePath)) {
-      return await fs.readJSON(transcriptionFilePath);
-    }
-    return null;
-  } catch (error) {
-    console.error(`Error loading transcription for ${audioFilePath}:`, error);
-    return null;
+  // The sidecar can exist before a transcription does, holding only metadata
+  return sidecar?.text ? (sidecar as TranscriptionResult) : null;
+}
+
+/**
+ * Replaces the text of a saved transcription with a manual edit, keeping the previous text as a revision.
+ * Segments and post-processing belong to the previous text, so they are dropped until a revision
+ * that has them is restored.
+ * @param audioFilePath Recording the transcription belongs to
+ * @param text Edited text
+ * @returns The updated transcription
+ */
+export async function saveEditedTranscription(audioFilePath: string, text: string): Promise<TranscriptionResult> {
+  const transcription = await loadTranscription(audioFilePath);
+  if (!transcription) {
+    throw new Error("This recording has no saved transcription");
+  }
+
+  const edited: TranscriptionResult = {
+    ...transcription,
+    text: text.trim(),
+    timestamp: new Date().toISOString(),
+    segments: undefined,
+    postProcessing: undefined,
+  };
+
+  await saveTranscription(audioFilePath, edited, "edit");
+  return (await loadTranscription(audioFilePath)) ?? edited;
+}
+
+/**
+ * Makes an earlier revision the current transcription. The restore is recorded as a new revision,
+ * so the text it replaces stays in the history.
+ * @param audioFilePath Recording the transcription belongs to
+ * @param revisionId Revision to restore
+ * @returns The updated transcription
+ */
+export async function restoreTranscriptionRevision(
+  audioFilePath: string,
+  revisionId: string,
+): Promise<TranscriptionResult> {
+  const transcription = await loadTranscription(audioFilePath);
+  const revision = transcription?.revisions?.find((candidate) => candidate.id === revisionId);
+  if (!transcription || !revision) {
+    throw new Error("This revision no longer exists");
   }
+
+  const restored: TranscriptionResult = {
+    ...transcription,
+    text: revision.text,
+    timestamp: new Date().toISOString(),
+    language: revision.language,
+    prompt: revision.prompt,
+    model: revision.model,
+    provider: revision.provider,
+    mode: revision.mode,
+    detectedLanguage: revision.detectedLanguage,
+    duration: revision.duration,
+    segments: revision.segments,
+    preprocessing: revision.preprocessing,
+    postProcessing: undefined,
+  };
+
+  await saveTranscription(audioFilePath, restored, "restore", revision.id);
+  return (await loadTranscription(audioFilePath)) ?? restored;
 }
@@ -1,8 +1,31 @@
-import { execSync } from "child_process";
+import { execFile, execSync } from "child_process";
+import { promisify } from "util";
 import fs from "fs-extra";
 import path from "path";
-import { DEFAULT_TEMP_DIR, RECORDING_FILE_FORMAT, RECORDING_SAMPLE_RATE, SOX_CONFIG } from "../constants";
-import { AudioValidationResult, ErrorTypes } from "../types";
+import { getPreferenceValues } from "@raycast/api";
+import {
+  AUDIO_FILE_EXTENSIONS,
+  DEFAULT_INPUT_DEVICE,
+  DEFAULT_RECORDING_FORMAT,
+  DEFAULT_TEMP_DIR,
+  PREPROCESSING_CONFIG,
+  RECORDING_FORMATS,
+  RECORDING_SAMPLE_RATE,
+  SILENCE_DEFAULTS,
+  SOX_CONFIG,
+} from "../constants";
+import {
+  AudioChunk,
+  AudioValidationResult,
+  ErrorTypes,
+  Preferences,
+  RecordingFormat,
+  SilenceSettings,
+  TrimmedAudio,
+} from "../types";
+import { readWavLayout } from "./wav";
+
+const execFileAsync = promisify(execFile);
 
 const MIN_VALID_FILE_SIZE = 1024; // 1KB
 
@@ -11,12 +34,41 @@ export async function ensureTempDirectory(directory: string = DEFAULT_TEMP_DIR):
   return directory;
 }
 
-export function generateAudioFilename(directory: string = DEFAULT_TEMP_DIR): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  return path.join(directory, `recording-${timestamp}.${RECORDING_FILE_FORMAT}`);
+export function getRecordingFormat(): RecordingFormat {
+  const { recordingFormat } = getPreferenceValues<Preferences>();
+  return RECORDING_FORMATS.some((format) => format.value === recordingFormat)
+    ? (recordingFormat as RecordingFormat)
+    : DEFAULT_RECORDING_FORMAT;
+}
+
+export function generateAudioFilename(
+  directory: string = DEFAULT_TEMP_DIR,
+  format: string = getRecordingFormat(),
+  recordedAt: Date = new Date(),
+): string {
+  const timestamp = recordedAt.toISOString().replace(/[:.]/g, "-");
+  return path.join(directory, `recording-${timestamp}.${format}`);
+}
+
+export function isAudioFile(fileName: string): boolean {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return (AUDIO_FILE_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+// Files written next to a recording while it is processed, e.g. recording-x.trimmed.wav
+function isDerivedAudioFile(fileName: string): boolean {
+  const suffix = path.extname(path.basename(fileName, path.extname(fileName))).slice(1);
+  return ["trimmed", "joined", PREPROCESSING_CONFIG.FILE_SUFFIX].includes(suffix);
 }
 
+// Sox doesn't move while the extension runs, so the lookup is only done until it succeeds
+let soxPathCache: string | null = null;
+
 export async function checkSoxInstalled(): Promise<string | null> {
+  if (soxPathCache) {
+    return soxPathCache;
+  }
+
   try {
     // Try multiple ways to find Sox
     const soxPath = execSync(
@@ -26,6 +78,7 @@ export async function checkSoxInstalled(): Promise<string | null> {
 
     if (soxPath) {
       console.log("Sox found at:", soxPath);
+      soxPathCache = soxPath;
       return soxPath;
     }
     return null;
@@ -35,11 +88,36 @@ export async function checkSoxInstalled(): Promise<string | null> {
   }
 }
 
+let ffmpegPathCache: string | null = null;
+
+// FFmpeg is optional, it is only needed to import formats Sox can't read
+export async function checkFfmpegInstalled(): Promise<string | null> {
+  if (ffmpegPathCache) {
+    return ffmpegPathCache;
+  }
+
+  try {
+    const ffmpegPath = execSync(
+      `which ffmpeg || ([ -f /usr/local/bin/ffmpeg ] && echo /usr/local/bin/ffmpeg) || ([ -f /opt/homebrew/bin/ffmpeg ] && echo /opt/homebrew/bin/ffmpeg)`,
+      { encoding: "utf8" },
+    ).trim();
+
+    if (ffmpegPath) {
+      ffmpegPathCache = ffmpegPath;
+      return ffmpegPath;
+    }
+    return null;
+  } catch (error) {
+    console.error("FFmpeg not found:", error);
+    return null;
+  }
+}
+
 export async function listAudioFiles(directory: string = DEFAULT_TEMP_DIR): Promise<string[]> {
   await ensureTempDirectory(directory);
   const files = await fs.readdir(directory);
   const audioFiles = files
-    .filter((file) => file.endsWith(`.${RECORDING_FILE_FORMAT}`))
+    .filter((file) => isAudioFile(file) && !isDerivedAudioFile(file))
     .map((file) => path.join(directory, file));
   return audioFiles;
 }
@@ -84,9 +162,18 @@ export async function validateAudioFile(filePath: string): Promise<AudioValidati
 
 async function estimateDurationFromFileSize(filePath: string): Promise<number> {
   const { size } = await fs.stat(filePath);
-  const sampleRate = RECORDING_SAMPLE_RATE; // Use the constant from our config
-  const bytesPerSample = 2; // 16-bit audio = 2 bytes per sample
-  return Math.round(size / (sampleRate * bytesPerSample));
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+
+  const bytesPerSecond =
+    extension === "wav"
+      ? (await readWavLayout(filePath))?.byteRate
+      : RECORDING_FORMATS.find((format) => format.value === extension)?.bytesPerSecond;
+
+  if (!bytesPerSecond) {
+    throw new Error(`Cannot estimate the duration of ${path.basename(filePath)} without Sox`);
+  }
+
+  return Math.round(size / bytesPerSecond);
 }
 
 export async function getAudioDuration(filePath: string): Promise<number> {
@@ -97,8 +184,8 @@ export async function getAudioDuration(filePath: string): Promise<number> {
       return estimateDurationFromFileSize(filePath);
     }
 
-    const stdout = await execSync(`${soxPath} --i -D "${filePath}"`);
-    const duration = parseFloat(stdout.toString().trim());
+    const { stdout } = await execFileAsync(soxPath, ["--i", "-D", filePath]);
+    const duration = parseFloat(stdout.trim());
 
     if (isNaN(duration) || duration <= 0) {
       throw new Error("Invalid duration returned by Sox");
@@ -116,18 +203,237 @@ export async function getAudioDuration(filePath: string): Promise<number> {
   }
 }
 
-export function buildSoxCommand(outputPath: string): string[] {
+function parsePositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+export function getSilenceSettings(): SilenceSettings {
+  const preferences = getPreferenceValues<Preferences>();
+
+  return {
+    autoStop: preferences.autoStopOnSilence ?? false,
+    trim: preferences.trimSilence ?? true,
+    thresholdPercent: parsePositiveNumber(preferences.silenceThreshold, SILENCE_DEFAULTS.THRESHOLD_PERCENT),
+    timeoutSeconds: parsePositiveNumber(preferences.silenceTimeout, SILENCE_DEFAULTS.TIMEOUT_SECONDS),
+  };
+}
+
+/**
+ * Builds sox silence effect arguments that stop recording after a stretch of silence. Everything is
+ * written from the start, leading silence is only left out of the upload copy made by trimSilence.
+ * @param settings Threshold and timeout to use
+ * @returns Effect arguments to append after the output file
+ */
+export function buildSilenceEffect(settings: SilenceSettings): string[] {
+  return ["silence", "0", "1", String(settings.timeoutSeconds), `${settings.thresholdPercent}%`];
+}
+
+export function getTrimmedFilePath(filePath: string): string {
+  return filePath.replace(/(\.[^.]+)$/, ".trimmed$1");
+}
+
+/**
+ * Writes a copy of a recording without its leading and trailing silence, for upload.
+ * The recording itself is never changed, so playback and history keep the full audio.
+ * @param filePath Recording to trim
+ * @param settings Threshold to treat as silence
+ * @returns The trimmed copy, or null when Sox is missing, trimming failed or it would leave nothing
+ */
+export async function trimSilence(filePath: string, settings: SilenceSettings): Promise<TrimmedAudio | null> {
+  const soxPath = await checkSoxInstalled();
+  if (!soxPath) {
+    return null;
+  }
+
+  const threshold = `${settings.thresholdPercent}%`;
+  const minSound = String(SILENCE_DEFAULTS.MIN_SOUND_SECONDS);
+  const trimmedPath = getTrimmedFilePath(filePath);
+
+  try {
+    // The stat effect reports the length left once the leading silence is gone
+    const [{ stdout: fullLength }, { stderr: statOutput }] = await Promise.all([
+      execFileAsync(soxPath, ["--i", "-D", filePath]),
+      execFileAsync(soxPath, [filePath, "-n", "silence", "1", minSound, threshold, "stat"]),
+    ]);
+    const remainingLength = parseFloat(statOutput.match(/Length \(seconds\):\s*([\d.]+)/)?.[1] ?? "");
+    const leadingSilenceSeconds = parseFloat(fullLength) - remainingLength;
+    if (isNaN(leadingSilenceSeconds)) {
+      throw new Error("Sox didn't report the length of the leading silence");
+    }
+
+    // Trimming the start of the reversed audio removes the trailing silence
+    await execFileAsync(soxPath, [
+      filePath,
+      trimmedPath,
+      "silence",
+      "1",
+      minSound,
+      threshold,
+      "reverse",
+      "silence",
+      "1",
+      minSound,
+      threshold,
+      "reverse",
+    ]);
+
+    const validation = await validateAudioFile(trimmedPath);
+    if (!validation.isValid) {
+      await fs.remove(trimmedPath);
+      return null;
+    }
+
+    return { filePath: trimmedPath, leadingSilenceSeconds: Math.max(0, leadingSilenceSeconds) };
+  } catch (error) {
+    console.error(`Error trimming silence from ${filePath}:`, error);
+    await fs.remove(trimmedPath);
+    return null;
+  }
+}
+
+/**
+ * Reads the input level from a sox progress line such as
+ * `In:0.00% 00:00:02.05 [00:00:00.00] Out:32.8k [ -====|====- ] Hd:4.5 Clip:0`.
+ * Each meter side has six characters, "=" is a 2dB step, "-" a 1dB step and "!" clipping.
+ * @param output Chunk of sox stderr output
+ * @returns Level from 0 to 1 of the last meter in the chunk, or null if it has none
+ */
+export function parseSoxLevel(output: string): number | null {
+  const meters = [...output.matchAll(/\[([ =!-]{6})\|([ =!-]{6})\]/g)];
+  const lastMeter = meters[meters.length - 1];
+  if (!lastMeter) {
+    return null;
+  }
+
+  const steps = [...lastMeter[2].trim()].reduce((total, char) => total + (char === "-" ? 1 : 2), 0);
+  return Math.min(1, steps / 12);
+}
+
+// Sample encoding only applies to PCM formats, compressed formats take a compression setting instead
+export function getFormatOptions(format: string): string[] {
+  switch (format) {
+    case "flac":
+      return ["-b", String(SOX_CONFIG.BIT_DEPTH), "-C", String(SOX_CONFIG.FLAC_COMPRESSION)];
+    case "mp3":
+      return ["-C", String(SOX_CONFIG.MP3_BITRATE_KBPS)];
+    default:
+      return ["-b", String(SOX_CONFIG.BIT_DEPTH), "-e", SOX_CONFIG.ENCODING];
+  }
+}
+
+export function getSoxInputArgs(inputDevice: string = DEFAULT_INPUT_DEVICE): string[] {
+  return inputDevice === DEFAULT_INPUT_DEVICE ? ["-d"] : ["-t", SOX_CONFIG.INPUT_DRIVER, inputDevice];
+}
+
+/**
+ * Builds the sox arguments for a recording
+ * @param outputPath File to record to
+ * @param silenceSettings Adds the silence effect when auto-stop is enabled
+ * @param inputDevice Named input device, or the system default
+ * @returns Arguments to spawn sox with
+ */
+export function buildSoxCommand(
+  outputPath: string,
+  silenceSettings?: SilenceSettings,
+  inputDevice: string = DEFAULT_INPUT_DEVICE,
+): string[] {
   return [
-    "-d",
+    "-S", // Show progress, which includes the input level meter
+    ...getSoxInputArgs(inputDevice),
     "-c",
     String(SOX_CONFIG.CHANNELS),
     "-r",
     String(RECORDING_SAMPLE_RATE),
-    "-b",
-    String(SOX_CONFIG.BIT_DEPTH),
-    "-e",
-    SOX_CONFIG.ENCODING,
+    ...getFormatOptions(path.extname(outputPath).slice(1)),
     "-V" + String(SOX_CONFIG.VERBOSE_LEVEL),
     outputPath,
+    ...(silenceSettings?.autoStop ? buildSilenceEffect(silenceSettings) : []),
   ];
 }
+
+/**
+ * Builds the sox arguments to play a file on the default output device, the same as sox's play command
+ * @param filePath Audio file to play
+ * @param start Position to start from, in seconds
+ * @returns Arguments to spawn sox with
+ */
+export function buildPlaybackCommand(filePath: string, start = 0): string[] {
+  return ["-q", filePath, "-d", ...(start > 0 ? ["trim", start.toFixed(3)] : [])];
+}
+
+/**
+ * Splits an audio file into overlapping chunks with sox's trim effect
+ * @param filePath Audio file to split
+ * @param chunkSeconds Length of each chunk, including the overlap
+ * @param overlapSeconds Audio shared between consecutive chunks
+ * @returns Chunks in order, written to a temporary folder next to the recording
+ */
+export async function splitAudioFile(
+  filePath: string,
+  chunkSeconds: number,
+  overlapSeconds: number,
+): Promise<AudioChunk[]> {
+  const soxPath = await checkSoxInstalled();
+  if (!soxPath) {
+    throw new Error(ErrorTypes.SOX_NOT_INSTALLED);
+  }
+
+  const totalDuration = await getAudioDuration(filePath);
+  const extension = path.extname(filePath);
+  const chunkDirectory = getChunkDirectory(filePath);
+  await fs.ensureDir(chunkDirectory);
+
+  const step = chunkSeconds - overlapSeconds;
+  const chunks: AudioChunk[] = [];
+
+  for (let start = 0; start < totalDuration; start += step) {
+    const duration = Math.min(chunkSeconds, totalDuration - start);
+    const chunkPath = path.join(chunkDirectory, `chunk-${String(chunks.length + 1).padStart(3, "0")}${extension}`);
+
+    await execFileAsync(soxPath, [filePath, chunkPath, "trim", String(start), String(duration)]);
+    chunks.push({ filePath: chunkPath, start, duration });
+
+    if (start + chunkSeconds >= totalDuration) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Joins recording segments into a single file, replacing the first segment
+ * @param segmentPaths Segments in recording order, the first one is the recording itself
+ */
+export async function concatenateAudioFiles(segmentPaths: string[]): Promise<void> {
+  if (segmentPaths.length < 2) {
+    return;
+  }
+
+  const soxPath = await checkSoxInstalled();
+  if (!soxPath) {
+    throw new Error(ErrorTypes.SOX_NOT_INSTALLED);
+  }
+
+  const [outputPath] = segmentPaths;
+  const joinedPath = outputPath.replace(/(\.[^.]+)$/, ".joined$1");
+
+  await execFileAsync(soxPath, [...segmentPaths, joinedPath]);
+  await fs.move(joinedPath, outputPath, { overwrite: true });
+}
+
+export function getSegmentDirectory(filePath: string): string {
+  return path.join(path.dirname(filePath), `.segments-${path.basename(filePath, path.extname(filePath))}`);
+}
+
+// The transcription sidecar sits next to the recording, whatever its audio format
+export function getTranscriptionFilePath(audioFilePath: string): string {
+  return audioFilePath.replace(/\.[^.]+$/, ".json");
+}
+
+export function getLiveChunkDirectory(filePath: string): string {
+  return path.join(path.dirname(filePath), `.live-${path.basename(filePath, path.extname(filePath))}`);
+}
+
+export function getChunkDirectory(filePath: string): string {
+  return path.join(path.dirname(filePath), `.chunks-${path.basename(filePath, path.extname(filePath))}`);
+}
@@ -0,0 +1,73 @@
+import { Clipboard, Toast, showToast } from "@raycast/api";
+import { BulkItemOutcome, BulkOperationResult, TranscriptionFile } from "../types";
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+/**
+ * Runs an operation over several recordings one at a time, reporting progress in a single toast
+ * and summarising failures once all of them are done. A failure doesn't stop the remaining recordings.
+ * @param files Recordings to process
+ * @param options Progress title, past tense for the summary, and the operation to run on each recording.
+ * The operation can report a failed follow-up step with `warn`, the recording still counts as processed
+ * and the summary lists those failures under `warningTitle`.
+ * @returns How many recordings were processed, queued, skipped or failed
+ */
+export async function runBulkOperation(
+  files: TranscriptionFile[],
+  options: {
+    title: string;
+    doneTitle: string;
+    warningTitle?: string;
+    operation: (
+      file: TranscriptionFile,
+      toast: Toast,
+      warn: (error: unknown) => void,
+    ) => Promise<BulkItemOutcome | void>;
+  },
+): Promise<BulkOperationResult> {
+  const toast = await showToast({ style: Toast.Style.Animated, title: `${options.title} 0/${files.length}` });
+  const result: BulkOperationResult = { done: 0, queued: 0, skipped: 0, failures: [], warnings: [] };
+
+  for (const [index, file] of files.entries()) {
+    toast.title = `${options.title} ${index + 1}/${files.length}`;
+    toast.message = file.metadata?.title ?? file.fileName;
+
+    try {
+      const warn = (error: unknown) => result.warnings.push({ file, error: getErrorMessage(error) });
+      const outcome = (await options.operation(file, toast, warn)) ?? "done";
+      result[outcome]++;
+    } catch (error) {
+      console.error(`${options.title} ${file.fileName} failed:`, error);
+      result.failures.push({ file, error: getErrorMessage(error) });
+    }
+  }
+
+  const details = [
+    result.queued > 0 ? `${result.queued} queued for retry` : null,
+    result.skipped > 0 ? `${result.skipped} skipped` : null,
+    result.failures.length > 0 ? `${result.failures.length} failed` : null,
+    result.warnings.length > 0 ? `${result.warnings.length} ${options.warningTitle ?? "with errors"}` : null,
+  ].filter(Boolean);
+
+  const problems = [...result.failures, ...result.warnings];
+
+  toast.style = problems.length > 0 ? Toast.Style.Failure : Toast.Style.Success;
+  toast.title = `${options.doneTitle} ${result.done} of ${pluralize(files.length, "recording")}`;
+  toast.message = details.join(" · ") || undefined;
+
+  if (problems.length > 0) {
+    toast.primaryAction = {
+      title: "Copy Errors",
+      onAction: () =>
+        Clipboard.copy(problems.map((problem) => `${problem.file.fileName}: ${problem.error}`).join("\n")),
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,121 @@
+import { TextDiffPart } from "../types";
+
+// Beyond this many changed words the texts are shown as fully replaced, the diff wouldn't be readable anyway
+const MAX_EDIT_DISTANCE = 2000;
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function pushPart(parts: TextDiffPart[], type: TextDiffPart["type"], word: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.words.push(word);
+  } else {
+    parts.push({ type, words: [word] });
+  }
+}
+
+/**
+ * Compares two texts word by word with Myers' algorithm, ignoring changes in whitespace
+ * @param before Older text
+ * @param after Newer text
+ * @returns Runs of unchanged, removed and added words, in reading order
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const maxDistance = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+
+  // trace[d] holds the furthest x reached on each diagonal k, stored at index k + d
+  const trace: number[][] = [];
+  let v: number[] = [0];
+  let distance = -1;
+
+  for (let d = 0; d <= maxDistance && distance === -1; d++) {
+    const next: number[] = new Array(2 * d + 1);
+
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[k - 1 + (d - 1)] < v[k + 1 + (d - 1)]);
+      let x = d === 0 ? 0 : down ? v[k + 1 + (d - 1)] : v[k - 1 + (d - 1)] + 1;
+      let y = x - k;
+
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      next[k + d] = x;
+      if (x >= a.length && y >= b.length) {
+        distance = d;
+        break;
+      }
+    }
+
+    trace.push(next);
+    v = next;
+  }
+
+  if (distance === -1) {
+    const parts: TextDiffPart[] = [];
+    if (a.length > 0) parts.push({ type: "removed", words: a });
+    if (b.length > 0) parts.push({ type: "added", words: b });
+    return parts;
+  }
+
+  // Walk the trace back from the end, collecting words in reverse
+  const reversed: { type: TextDiffPart["type"]; word: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = distance; d > 0; d--) {
+    const previous = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[k - 1 + (d - 1)] < previous[k + 1 + (d - 1)]);
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = previous[previousK + (d - 1)];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      reversed.push({ type: "unchanged", word: a[--x] });
+      y--;
+    }
+
+    if (down) {
+      reversed.push({ type: "added", word: b[--y] });
+    } else {
+      reversed.push({ type: "removed", word: a[--x] });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    reversed.push({ type: "unchanged", word: a[--x] });
+    y--;
+  }
+
+  const parts: TextDiffPart[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushPart(parts, reversed[i].type, reversed[i].word);
+  }
+  return parts;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~[\]#<>])/g, "\\$1");
+}
+
+/**
+ * Renders a word diff as markdown, with removed words struck through and added words in bold
+ * @param parts Diff from diffWords
+ * @returns Markdown paragraph
+ */
+export function formatDiffMarkdown(parts: TextDiffPart[]): string {
+  return parts
+    .map((part) => {
+      const text = escapeMarkdown(part.words.join(" "));
+      if (part.type === "removed") return `~~${text}~~`;
+      if (part.type === "added") return `**${text}**`;
+      return text;
+    })
+    .join(" ");
+}
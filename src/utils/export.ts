@@ -0,0 +1,159 @@
+import fs from "fs-extra";
+import path from "path";
+import { EXPORT_DEFAULTS } from "../constants";
+import { ExportFormat, SubtitleCue, SubtitleOptions, TranscriptionResult, TranscriptionSegment } from "../types";
+import { formatTimestampedTranscript } from "./formatting";
+
+export function wrapText(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let currentLine = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (currentLine === "") {
+      currentLine = word;
+    } else if (currentLine.length + 1 + word.length <= maxLineLength) {
+      currentLine = `${currentLine} ${word}`;
+    } else {
+      lines.push(currentLine);
+      currentLine = word;
+    }
+  }
+
+  if (currentLine !== "") {
+    lines.push(currentLine);
+  }
+
+  return lines;
+}
+
+/**
+ * Turns transcription segments into subtitle cues
+ * @param segments Segments with timings relative to the start of the recording
+ * @param options Line length and cue splitting options
+ * @returns Cues in order, long segments split across several cues when requested
+ */
+export function buildSubtitleCues(segments: TranscriptionSegment[], options: SubtitleOptions): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const lines = wrapText(segment.text, options.maxLineLength);
+    if (lines.length === 0) continue;
+
+    if (options.splitMode === "segment" || lines.length <= options.maxLinesPerCue) {
+      cues.push({ start: segment.start, end: segment.end, lines });
+      continue;
+    }
+
+    // Share the segment's time between its cues in proportion to their length
+    const totalCharacters = lines.reduce((total, line) => total + line.length, 0);
+    const segmentDuration = segment.end - segment.start;
+    let cueStart = segment.start;
+
+    for (let index = 0; index < lines.length; index += options.maxLinesPerCue) {
+      const cueLines = lines.slice(index, index + options.maxLinesPerCue);
+      const cueCharacters = cueLines.reduce((total, line) => total + line.length, 0);
+      const isLastCue = index + options.maxLinesPerCue >= lines.length;
+      const cueEnd = isLastCue ? segment.end : cueStart + (segmentDuration * cueCharacters) / totalCharacters;
+
+      cues.push({ start: cueStart, end: cueEnd, lines: cueLines });
+      cueStart = cueEnd;
+    }
+  }
+
+  return cues;
+}
+
+function formatSubtitleTime(seconds: number, millisecondSeparator: "," | "."): string {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3_600_000);
+  const minutes = Math.floor((totalMilliseconds % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMilliseconds % 60_000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+
+  const time = [hours, minutes, secs].map((value) => value.toString().padStart(2, "0")).join(":");
+  return `${time}${millisecondSeparator}${milliseconds.toString().padStart(3, "0")}`;
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatSubtitleTime(cue.start, ",")} --> ${formatSubtitleTime(cue.end, ",")}\n${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatSubtitleTime(cue.start, ".")} --> ${formatSubtitleTime(cue.end, ".")}\n${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
+
+export function getExportFilePath(audioFilePath: string, format: ExportFormat, directory?: string): string {
+  const baseName = path.basename(audioFilePath, path.extname(audioFilePath));
+  // The recording's sidecar already uses .json, so exported JSON gets its own suffix
+  const extension = format === "json" ? "transcript.json" : format;
+  return path.join(directory ?? path.dirname(audioFilePath), `${baseName}.${extension}`);
+}
+
+/**
+ * Writes a transcription in the requested formats
+ * @param transcription Saved transcription of a recording
+ * @param audioFilePath Recording the transcription belongs to
+ * @param formats Formats to write
+ * @param options Destination folder and subtitle options, files go next to the recording by default
+ * @returns Paths of the written files
+ */
+export async function exportTranscription(
+  transcription: TranscriptionResult,
+  audioFilePath: string,
+  formats: ExportFormat[],
+  options: Partial<SubtitleOptions> & { directory?: string } = {},
+): Promise<string[]> {
+  const subtitleOptions: SubtitleOptions = {
+    maxLineLength: options.maxLineLength ?? EXPORT_DEFAULTS.MAX_LINE_LENGTH,
+    maxLinesPerCue: options.maxLinesPerCue ?? EXPORT_DEFAULTS.MAX_LINES_PER_CUE,
+    splitMode: options.splitMode ?? EXPORT_DEFAULTS.SPLIT_MODE,
+  };
+  const segments = transcription.segments ?? [];
+
+  if (options.directory) {
+    await fs.ensureDir(options.directory);
+  }
+
+  const writtenFiles: string[] = [];
+
+  for (const format of formats) {
+    const outputPath = getExportFilePath(audioFilePath, format, options.directory);
+
+    switch (format) {
+      case "srt":
+      case "vtt": {
+        if (segments.length === 0) {
+          throw new Error(`Cannot export ${format.toUpperCase()}: this transcription has no segment timestamps`);
+        }
+        const cues = buildSubtitleCues(segments, subtitleOptions);
+        await fs.writeFile(outputPath, format === "srt" ? formatSrt(cues) : formatVtt(cues));
+        break;
+      }
+      case "txt":
+        await fs.writeFile(
+          outputPath,
+          `${segments.length > 0 ? formatTimestampedTranscript(segments) : transcription.text}\n`,
+        );
+        break;
+      case "json":
+        await fs.writeJSON(outputPath, { ...transcription, audioFile: audioFilePath }, { spaces: 2 });
+        break;
+    }
+
+    writtenFiles.push(outputPath);
+  }
+
+  return writtenFiles;
+}
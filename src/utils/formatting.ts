@@ -1,9 +1,29 @@
+import { TranscriptionSegment } from "../types";
+
 export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
   return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
 }
 
+export function formatTimestamp(seconds: number): string {
+  const totalSeconds = Math.floor(seconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const minutesAndSeconds = `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${minutesAndSeconds}` : minutesAndSeconds;
+}
+
+export function formatTimestampedTranscript(segments: TranscriptionSegment[]): string {
+  return segments.map((segment) => `[${formatTimestamp(segment.start)}] ${segment.text.trim()}`).join("\n");
+}
+
+export function formatLevelMeter(level: number, segments: number): string {
+  const filled = Math.round(Math.max(0, Math.min(1, level)) * segments);
+  return "▮".repeat(filled) + "▯".repeat(segments - filled);
+}
+
 export function formatDuration(seconds: number): string {
   if (seconds < 60) {
     return `${seconds}s`;
@@ -30,10 +50,32 @@ export function formatDate(date: Date): string {
   });
 }
 
+/**
+ * Titles a day of recordings relative to today
+ * @param day Start of the day
+ * @param now Reference time
+ * @returns "Today", "Yesterday" or the date, with the weekday for the last week
+ */
+export function formatDayTitle(day: Date, now: Date = new Date()): string {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysAgo = Math.round((today.getTime() - day.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (daysAgo === 0) return "Today";
+  if (daysAgo === 1) return "Yesterday";
+
+  return day.toLocaleDateString(undefined, {
+    weekday: daysAgo < 7 ? "long" : undefined,
+    year: day.getFullYear() === today.getFullYear() ? undefined : "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
 export function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
 
 export function getWordCount(text: string): number {
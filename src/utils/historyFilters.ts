@@ -0,0 +1,215 @@
+import { LocalStorage } from "@raycast/api";
+import { HISTORY_DATE_FILTERS, HISTORY_SORT_OPTIONS, LANGUAGE_OPTIONS } from "../constants";
+import { HistoryDateFilter, HistorySection, HistorySortOrder, TranscriptionFile } from "../types";
+import { formatDayTitle } from "./formatting";
+
+const SORT_ORDER_STORAGE_KEY = "history-sort-order";
+
+export const ALL_RECORDINGS_FILTER = "all";
+
+export const FAVORITES_FILTER = "status:favorite";
+
+// Dropdown values are prefixed with their kind so a single dropdown can hold every filter
+export function getStatusFilterValue(isTranscribed: boolean): string {
+  return `status:${isTranscribed ? "transcribed" : "untranscribed"}`;
+}
+
+export function getDateFilterValue(range: HistoryDateFilter): string {
+  return `date:${range}`;
+}
+
+export function getLanguageFilterValue(language: string): string {
+  return `language:${language}`;
+}
+
+export function getModelFilterValue(model: string): string {
+  return `model:${model}`;
+}
+
+export function getTagFilterValue(tag: string): string {
+  return `tag:${tag}`;
+}
+
+/**
+ * Names the language of a transcription, preferring the one it was requested in over the detected one
+ * @param file Recording to name the language of
+ * @returns Language name, or undefined if the recording has no known language
+ */
+export function getLanguageTitle(file: TranscriptionFile): string | undefined {
+  if (file.language && file.language !== "auto") {
+    return LANGUAGE_OPTIONS.find((option) => option.value === file.language)?.title ?? file.language;
+  }
+
+  if (file.detectedLanguage) {
+    return file.detectedLanguage.charAt(0).toUpperCase() + file.detectedLanguage.slice(1);
+  }
+
+  return undefined;
+}
+
+function getStartOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function getDateRange(range: HistoryDateFilter, now: Date): { start: Date; end?: Date } {
+  const today = getStartOfDay(now);
+  // Weeks start on Monday
+  const weekStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+
+  switch (range) {
+    case "today":
+      return { start: today };
+    case "week":
+      return { start: weekStart };
+    case "lastWeek":
+      return {
+        start: new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() - 7),
+        end: weekStart,
+      };
+    case "month":
+      return { start: new Date(today.getFullYear(), today.getMonth(), 1) };
+  }
+}
+
+// The search keyword of a date range, e.g. "date:last-week"
+export function getDateSearchToken(range: (typeof HISTORY_DATE_FILTERS)[number]): string {
+  return `date:${range.title.toLowerCase().replace(/\s+/g, "-")}`;
+}
+
+/**
+ * Takes a date keyword such as "date:last-week" out of the history search, so a date range can be combined
+ * with whatever the dropdown filters by. Anything else, unknown keywords included, is searched as typed.
+ * @param searchText Text typed in the search bar
+ * @returns The range, if one was typed, and the rest of the text to search for
+ */
+export function parseHistorySearch(searchText: string): { dateFilter?: HistoryDateFilter; text: string } {
+  const words = searchText.split(/\s+/);
+  const range = HISTORY_DATE_FILTERS.find((candidate) =>
+    words.some((word) => word.toLowerCase() === getDateSearchToken(candidate)),
+  );
+  if (!range) {
+    return { text: searchText };
+  }
+
+  return {
+    dateFilter: range.value,
+    text: words
+      .filter((word) => word.toLowerCase() !== getDateSearchToken(range))
+      .join(" ")
+      .trim(),
+  };
+}
+
+export function matchesDateFilter(
+  file: TranscriptionFile,
+  range: HistoryDateFilter | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (!range) return true;
+
+  const { start, end } = getDateRange(range, now);
+  return file.recordedAt >= start && (!end || file.recordedAt < end);
+}
+
+/**
+ * Checks a recording against the value selected in the history dropdown
+ * @param file Recording to check
+ * @param filter Dropdown value, one of the values built by the filter helpers above
+ * @param now Reference time for date ranges
+ * @returns True if the recording should be listed
+ */
+export function matchesHistoryFilter(file: TranscriptionFile, filter: string, now: Date = new Date()): boolean {
+  const separatorIndex = filter.indexOf(":");
+  if (separatorIndex === -1) {
+    return true;
+  }
+
+  const kind = filter.slice(0, separatorIndex);
+  const value = filter.slice(separatorIndex + 1);
+
+  switch (kind) {
+    case "status":
+      if (value === "favorite") return !!file.metadata?.isFavorite;
+      return value === "transcribed" ? file.transcription !== null : file.transcription === null;
+    case "date":
+      return matchesDateFilter(file, value as HistoryDateFilter, now);
+    case "language":
+      return getLanguageTitle(file) === value;
+    case "model":
+      return file.model === value;
+    case "tag":
+      return !!file.metadata?.tags?.includes(value);
+    default:
+      return true;
+  }
+}
+
+export function matchesSearchText(file: TranscriptionFile, searchText: string): boolean {
+  if (!searchText) return true;
+
+  const searchLower = searchText.toLowerCase();
+  return [
+    file.fileName,
+    file.transcription,
+    getLanguageTitle(file),
+    file.model,
+    file.metadata?.title,
+    file.metadata?.notes,
+    ...(file.metadata?.tags ?? []),
+  ].some((field) => field?.toLowerCase().includes(searchLower));
+}
+
+export function sortTranscriptionFiles(files: TranscriptionFile[], sortOrder: HistorySortOrder): TranscriptionFile[] {
+  const byDate = (a: TranscriptionFile, b: TranscriptionFile) => b.recordedAt.getTime() - a.recordedAt.getTime();
+
+  return [...files].sort((a, b) => {
+    switch (sortOrder) {
+      case "duration":
+        return b.duration - a.duration || byDate(a, b);
+      case "wordCount":
+        return b.wordCount - a.wordCount || byDate(a, b);
+      default:
+        return byDate(a, b);
+    }
+  });
+}
+
+/**
+ * Splits recordings into list sections. Sorting by date groups them per day, other orders
+ * would scatter a day across the list so they're kept in a single section.
+ * @param files Recordings, already sorted
+ * @param sortOrder Order the recordings were sorted in
+ * @param now Reference time for the Today and Yesterday titles
+ * @returns Sections in list order
+ */
+export function groupTranscriptionFiles(
+  files: TranscriptionFile[],
+  sortOrder: HistorySortOrder,
+  now: Date = new Date(),
+): HistorySection[] {
+  if (sortOrder !== "date") {
+    const title = sortOrder === "duration" ? "Longest First" : "Most Words First";
+    return files.length > 0 ? [{ id: sortOrder, title, files }] : [];
+  }
+
+  const sections = new Map<string, HistorySection>();
+
+  for (const file of files) {
+    const day = getStartOfDay(file.recordedAt);
+    const id = day.toISOString();
+    const section = sections.get(id) ?? { id, title: formatDayTitle(day, now), files: [] };
+    section.files.push(file);
+    sections.set(id, section);
+  }
+
+  return [...sections.values()];
+}
+
+export async function getHistorySortOrder(): Promise<HistorySortOrder> {
+  const stored = await LocalStorage.getItem<string>(SORT_ORDER_STORAGE_KEY);
+  return HISTORY_SORT_OPTIONS.find((option) => option.value === stored)?.value ?? "date";
+}
+
+export async function setHistorySortOrder(sortOrder: HistorySortOrder): Promise<void> {
+  await LocalStorage.setItem(SORT_ORDER_STORAGE_KEY, sortOrder);
+}
@@ -0,0 +1,285 @@
+import fs from "fs-extra";
+import path from "path";
+import { DEFAULT_TEMP_DIR, HISTORY_INDEX_CONFIG } from "../constants";
+import { HistoryIndexEntry, QueueJob, TranscriptionFile, TranscriptionResult, TranscriptionSidecar } from "../types";
+import { getAudioDuration, getTranscriptionFilePath, listAudioFiles } from "./audio";
+import { readTranscriptionSidecar } from "./metadata";
+import { getInterruptedRecordingDuration, isInterruptedRecording } from "./recovery";
+
+interface HistoryIndexFile {
+  version: number;
+  entries: HistoryIndexEntry[];
+}
+
+export function getHistoryIndexPath(directory: string = DEFAULT_TEMP_DIR): string {
+  return path.join(directory, HISTORY_INDEX_CONFIG.FILE_NAME);
+}
+
+export function parseRecordingDate(fileName: string): Date {
+  const regex = /recording-(.+)\.[^.]+$/;
+  const dateMatch = regex.exec(fileName);
+  const dateStr = dateMatch
+    ? dateMatch[1].replace(/-/g, (match, offset) => {
+        if (offset === 10) return "T"; // After date
+        if (offset > 10) return offset === 13 || offset === 16 ? ":" : "."; // Time separators
+        return "-"; // Date separators
+      })
+    : "";
+
+  return dateStr ? new Date(dateStr) : new Date();
+}
+
+export function getTranscriptionFields(transcriptionData: TranscriptionResult | null) {
+  const transcription = transcriptionData?.text ?? null;
+
+  return {
+    transcription,
+    wordCount: transcription ? transcription.split(/\s+/).filter(Boolean).length : 0,
+    mode: transcriptionData?.mode,
+    language: transcriptionData?.language,
+    detectedLanguage: transcriptionData?.detectedLanguage,
+    model: transcriptionData?.model,
+    segments: transcriptionData?.segments,
+    preprocessing: transcriptionData?.preprocessing,
+    postProcessing: transcriptionData?.postProcessing,
+  };
+}
+
+async function getModifiedTime(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a recording into an index entry
+ * @param filePath Recording to read
+ * @returns The entry, or null if neither the audio nor a transcript of it is left
+ */
+async function buildEntry(filePath: string): Promise<HistoryIndexEntry | null> {
+  const [audioStats, transcriptionModifiedAt] = await Promise.all([
+    fs.stat(filePath).catch(() => null),
+    getModifiedTime(getTranscriptionFilePath(filePath)),
+  ]);
+  const fileName = path.basename(filePath);
+
+  const sidecar = await readTranscriptionSidecar(filePath);
+  const transcriptionData = sidecar?.text ? (sidecar as TranscriptionResult) : null;
+
+  const entry = {
+    id: fileName,
+    filePath,
+    fileName,
+    recordedAt: parseRecordingDate(fileName).toISOString(),
+    ...getTranscriptionFields(transcriptionData),
+    metadata: sidecar?.metadata,
+    transcriptionModifiedAt,
+  };
+
+  if (!audioStats) {
+    return transcriptionData
+      ? {
+          ...entry,
+          duration: Math.round(transcriptionData.duration ?? 0),
+          sizeInBytes: 0,
+          isAudioDeleted: true,
+          audioModifiedAt: null,
+        }
+      : null;
+  }
+
+  const isInterrupted = await isInterruptedRecording(filePath);
+  const duration = isInterrupted ? await getInterruptedRecordingDuration(filePath) : await getAudioDuration(filePath);
+
+  return { ...entry, duration, sizeInBytes: audioStats.size, isInterrupted, audioModifiedAt: audioStats.mtimeMs };
+}
+
+/**
+ * Finds transcripts whose audio is gone, so history keeps listing them
+ * @param directory Recordings folder
+ * @param audioFiles Recordings that still have their audio
+ * @returns Paths of the sidecar JSON files without a recording next to them
+ */
+async function listAudioDeletedSidecars(directory: string, audioFiles: string[]): Promise<string[]> {
+  const sidecarsWithAudio = new Set(audioFiles.map(getTranscriptionFilePath));
+  const files = await fs.readdir(directory);
+
+  // Dotfiles are the index and noise profile, .transcript.json files are exports
+  return files
+    .filter((file) => path.extname(file) === ".json" && !file.startsWith(".") && !file.endsWith(".transcript.json"))
+    .map((file) => path.join(directory, file))
+    .filter((sidecarPath) => !sidecarsWithAudio.has(sidecarPath));
+}
+
+/**
+ * Works out which recording a sidecar without audio belongs to
+ * @param sidecarPath Sidecar JSON file
+ * @returns Path the recording had, or null if the file isn't a transcript sidecar
+ */
+async function getDeletedAudioPath(sidecarPath: string): Promise<string | null> {
+  try {
+    const sidecar: TranscriptionSidecar = await fs.readJSON(sidecarPath);
+    return sidecar.text && sidecar.audioFile && getTranscriptionFilePath(sidecar.audioFile) === sidecarPath
+      ? sidecar.audioFile
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a cached entry against the files on disk
+ * @param entry Cached entry
+ * @returns True if the recording and its transcription haven't changed since they were indexed
+ */
+async function isEntryCurrent(entry: HistoryIndexEntry): Promise<boolean> {
+  const [audioModifiedAt, transcriptionModifiedAt] = await Promise.all([
+    getModifiedTime(entry.filePath),
+    getModifiedTime(getTranscriptionFilePath(entry.filePath)),
+  ]);
+
+  if (audioModifiedAt !== entry.audioModifiedAt || transcriptionModifiedAt !== entry.transcriptionModifiedAt) {
+    return false;
+  }
+
+  // A recording can become interrupted without being touched again, when the recorder is closed
+  // mid-recording. The check only reads the header, so it is cheap enough to repeat.
+  return (
+    entry.transcription !== null ||
+    entry.isAudioDeleted === true ||
+    (await isInterruptedRecording(entry.filePath)) === !!entry.isInterrupted
+  );
+}
+
+async function readIndex(directory: string): Promise<HistoryIndexEntry[]> {
+  try {
+    const index: HistoryIndexFile = await fs.readJSON(getHistoryIndexPath(directory));
+    return index.version === HISTORY_INDEX_CONFIG.VERSION ? index.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeIndex(entries: HistoryIndexEntry[], directory: string): Promise<void> {
+  const indexPath = getHistoryIndexPath(directory);
+  const temporaryPath = `${indexPath}.tmp`;
+
+  // Written to a temporary file first, so another command never reads a half-written index
+  await fs.writeJSON(temporaryPath, { version: HISTORY_INDEX_CONFIG.VERSION, entries } satisfies HistoryIndexFile);
+  await fs.move(temporaryPath, indexPath, { overwrite: true });
+}
+
+function toTranscriptionFiles(entries: HistoryIndexEntry[], queue: QueueJob[]): TranscriptionFile[] {
+  return entries
+    .map((entry) => ({
+      ...entry,
+      recordedAt: new Date(entry.recordedAt),
+      queueJob: queue.find((job) => job.audioFile === entry.filePath),
+    }))
+    .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+}
+
+/**
+ * Reads history from the index without touching the recordings, so the list can render right away
+ * @param queue Queue jobs to attach to their recordings
+ * @param directory Recordings folder
+ * @returns Recordings as of the last sync, newest first
+ */
+export async function getIndexedTranscriptionFiles(
+  queue: QueueJob[],
+  directory: string = DEFAULT_TEMP_DIR,
+): Promise<TranscriptionFile[]> {
+  return toTranscriptionFiles(await readIndex(directory), queue);
+}
+
+/**
+ * Brings the index up to date with the recordings folder. Only new recordings and those whose audio
+ * or transcription changed since they were indexed are read again.
+ * @param queue Queue jobs to attach to their recordings
+ * @param directory Recordings folder
+ * @returns All recordings, newest first
+ */
+export async function syncHistoryIndex(
+  queue: QueueJob[],
+  directory: string = DEFAULT_TEMP_DIR,
+): Promise<TranscriptionFile[]> {
+  const [audioFiles, cachedEntries] = await Promise.all([listAudioFiles(directory), readIndex(directory)]);
+  const cachedByPath = new Map(cachedEntries.map((entry) => [entry.filePath, entry]));
+  const cachedBySidecarPath = new Map(cachedEntries.map((entry) => [getTranscriptionFilePath(entry.filePath), entry]));
+  const entries: HistoryIndexEntry[] = [];
+  let hasChanges = false;
+
+  const addEntry = async (filePath: string, cached: HistoryIndexEntry | undefined) => {
+    if (cached && (await isEntryCurrent(cached))) {
+      entries.push(cached);
+      return;
+    }
+
+    hasChanges = true;
+    try {
+      const entry = await buildEntry(filePath);
+      if (entry) entries.push(entry);
+    } catch (error) {
+      console.error(`Error processing file ${filePath}:`, error);
+    }
+  };
+
+  for (const filePath of audioFiles) {
+    await addEntry(filePath, cachedByPath.get(filePath));
+  }
+
+  for (const sidecarPath of await listAudioDeletedSidecars(directory, audioFiles)) {
+    const cached = cachedBySidecarPath.get(sidecarPath);
+    // Cached entries already know their recording, only new sidecars have to be read
+    const filePath = cached?.filePath ?? (await getDeletedAudioPath(sidecarPath));
+    if (filePath) {
+      await addEntry(filePath, cached);
+    }
+  }
+
+  hasChanges ||= entries.length !== cachedEntries.length;
+
+  if (hasChanges) {
+    await writeIndex(entries, directory);
+  }
+
+  return toTranscriptionFiles(entries, queue);
+}
+
+/**
+ * Re-reads one recording into the index, called when recording or transcribing it finishes
+ * @param filePath Recording to refresh
+ * @param queue Queue jobs to attach to the recording
+ * @param directory Recordings folder, files elsewhere such as live chunks aren't indexed
+ * @returns The refreshed recording, or null if it isn't indexed or can't be read
+ */
+export async function refreshHistoryEntry(
+  filePath: string,
+  queue: QueueJob[] = [],
+  directory: string = DEFAULT_TEMP_DIR,
+): Promise<TranscriptionFile | null> {
+  if (path.resolve(path.dirname(filePath)) !== path.resolve(directory)) {
+    return null;
+  }
+
+  try {
+    const entry = await buildEntry(filePath);
+    const entries = (await readIndex(directory)).filter((cached) => cached.filePath !== filePath);
+    await writeIndex(entry ? [...entries, entry] : entries, directory);
+
+    return entry ? toTranscriptionFiles([entry], queue)[0] : null;
+  } catch (error) {
+    console.error(`Error indexing ${filePath}:`, error);
+    return null;
+  }
+}
+
+export async function removeHistoryEntry(filePath: string, directory: string = DEFAULT_TEMP_DIR): Promise<void> {
+  const entries = await readIndex(directory);
+  await writeIndex(
+    entries.filter((entry) => entry.filePath !== filePath),
+    directory,
+  );
+}
@@ -0,0 +1,149 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs-extra";
+import path from "path";
+import { DEFAULT_TEMP_DIR, IMPORT_FILE_EXTENSIONS, RECORDING_SAMPLE_RATE } from "../constants";
+import { ErrorTypes, RecordingFormat } from "../types";
+import { checkFfmpegInstalled, generateAudioFilename, getRecordingFormat, isAudioFile } from "./audio";
+import { refreshHistoryEntry } from "./historyIndex";
+import { saveRecordingMetadata } from "./metadata";
+
+const execFileAsync = promisify(execFile);
+
+export function isImportableFile(fileName: string): boolean {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return (IMPORT_FILE_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+function isValidDate(date: Date): boolean {
+  return !isNaN(date.getTime()) && date.getTime() > 0;
+}
+
+/**
+ * Reads the creation time stored in the file by the device that recorded it, as phones and cameras do
+ * @param filePath Media file to read
+ * @returns Creation time, or null without FFmpeg or when the file has none
+ */
+async function readMediaCreationDate(filePath: string): Promise<Date | null> {
+  const ffmpegPath = await checkFfmpegInstalled();
+  const ffprobePath = ffmpegPath && path.join(path.dirname(ffmpegPath), "ffprobe");
+  if (!ffprobePath || !(await fs.pathExists(ffprobePath))) {
+    return null;
+  }
+
+  try {
+    const { stdout } = await execFileAsync(ffprobePath, [
+      "-v",
+      "quiet",
+      "-show_entries",
+      "format_tags=creation_time",
+      "-of",
+      "default=noprint_wrappers=1:nokey=1",
+      filePath,
+    ]);
+    const date = new Date(stdout.trim());
+    return stdout.trim() && isValidDate(date) ? date : null;
+  } catch (error) {
+    console.error(`Error reading the creation time of ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Works out when a file was recorded: the creation time in its metadata, otherwise the earliest
+ * of its creation and modification dates, since copying a file can reset either of them
+ * @param filePath File to date
+ * @returns When the file was most likely recorded
+ */
+export async function getImportedRecordingDate(filePath: string): Promise<Date> {
+  const mediaDate = await readMediaCreationDate(filePath);
+  if (mediaDate) {
+    return mediaDate;
+  }
+
+  const { birthtime, mtime } = await fs.stat(filePath);
+  const dates = [birthtime, mtime].filter(isValidDate);
+  return dates.length > 0 ? new Date(Math.min(...dates.map((date) => date.getTime()))) : new Date();
+}
+
+// Two files recorded in the same millisecond would share a name, so later ones move up a millisecond
+async function getAvailableFilePath(directory: string, extension: string, recordedAt: Date): Promise<string> {
+  let filePath = generateAudioFilename(directory, extension, recordedAt);
+
+  while (await fs.pathExists(filePath)) {
+    recordedAt = new Date(recordedAt.getTime() + 1);
+    filePath = generateAudioFilename(directory, extension, recordedAt);
+  }
+
+  return filePath;
+}
+
+async function convertWithFfmpeg(sourcePath: string, outputPath: string, format: RecordingFormat): Promise<void> {
+  const ffmpegPath = await checkFfmpegInstalled();
+  if (!ffmpegPath) {
+    throw new Error(ErrorTypes.FFMPEG_NOT_INSTALLED);
+  }
+
+  // Written under a temporary name so history doesn't list a half-converted file
+  const partialPath = `${outputPath}.part`;
+
+  try {
+    await execFileAsync(ffmpegPath, [
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-y",
+      "-i",
+      sourcePath,
+      "-vn", // Drop the video track of video files
+      "-ac",
+      "1",
+      "-ar",
+      String(RECORDING_SAMPLE_RATE),
+      "-f",
+      format,
+      partialPath,
+    ]);
+    await fs.move(partialPath, outputPath);
+  } finally {
+    await fs.remove(partialPath);
+  }
+}
+
+/**
+ * Copies an audio or video file into the recordings folder so it is listed and transcribed like a recording.
+ * It is named after the date it was recorded, and formats Sox can't read are converted to the recording format.
+ * The original file name becomes the recording's title.
+ * @param sourcePath File to import
+ * @param directory Recordings folder
+ * @returns Path of the imported recording
+ */
+export async function importAudioFile(sourcePath: string, directory: string = DEFAULT_TEMP_DIR): Promise<string> {
+  if (!isImportableFile(sourcePath)) {
+    throw new Error(`${path.extname(sourcePath) || "This file type"} files can't be imported`);
+  }
+
+  if (!(await fs.pathExists(sourcePath))) {
+    throw new Error(ErrorTypes.AUDIO_FILE_MISSING);
+  }
+
+  await fs.ensureDir(directory);
+
+  const recordedAt = await getImportedRecordingDate(sourcePath);
+  const extension = path.extname(sourcePath).slice(1).toLowerCase();
+
+  let filePath: string;
+  if (isAudioFile(sourcePath)) {
+    filePath = await getAvailableFilePath(directory, extension, recordedAt);
+    await fs.copy(sourcePath, filePath);
+  } else {
+    const format = getRecordingFormat();
+    filePath = await getAvailableFilePath(directory, format, recordedAt);
+    await convertWithFfmpeg(sourcePath, filePath, format);
+  }
+
+  await saveRecordingMetadata(filePath, { title: path.basename(sourcePath, path.extname(sourcePath)) });
+  await refreshHistoryEntry(filePath, [], directory);
+
+  return filePath;
+}
@@ -0,0 +1,71 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { DEFAULT_INPUT_DEVICE } from "../constants";
+import { ErrorTypes, InputDevice, Preferences } from "../types";
+
+const execFileAsync = promisify(execFile);
+
+const LAST_INPUT_DEVICE_STORAGE_KEY = "last-input-device";
+
+interface AudioDeviceEntry {
+  _name: string;
+  coreaudio_device_input?: number;
+  coreaudio_default_audio_input_device?: string;
+}
+
+interface AudioDataResponse {
+  SPAudioDataType?: { _items?: AudioDeviceEntry[] }[];
+}
+
+/**
+ * Lists the connected audio devices that have input channels
+ * @returns Input devices by name, or an empty list if they can't be read
+ */
+export async function listInputDevices(): Promise<InputDevice[]> {
+  try {
+    const { stdout } = await execFileAsync("system_profiler", ["SPAudioDataType", "-json"]);
+    const data = JSON.parse(stdout) as AudioDataResponse;
+
+    return (data.SPAudioDataType ?? [])
+      .flatMap((group) => group._items ?? [])
+      .filter((device) => (device.coreaudio_device_input ?? 0) > 0)
+      .map((device) => ({
+        name: device._name,
+        isDefault: device.coreaudio_default_audio_input_device === "spaudio_yes",
+      }));
+  } catch (error) {
+    console.error("Error listing input devices:", error);
+    return [];
+  }
+}
+
+/**
+ * Checks that a named input device is still connected before recording from it
+ * @param deviceName Device to record from, the system default is always available
+ * @throws If the device is no longer listed
+ */
+export async function assertInputDeviceAvailable(deviceName: string): Promise<void> {
+  if (deviceName === DEFAULT_INPUT_DEVICE) {
+    return;
+  }
+
+  const devices = await listInputDevices();
+  // An empty list means the devices couldn't be read, so leave it to sox to report a problem
+  if (devices.length > 0 && !devices.some((device) => device.name === deviceName)) {
+    throw new Error(`${ErrorTypes.INPUT_DEVICE_NOT_FOUND}: "${deviceName}". Choose another input device and try again`);
+  }
+}
+
+export function getPreferredInputDevice(): string {
+  const { inputDevice } = getPreferenceValues<Preferences>();
+  return inputDevice?.trim() || DEFAULT_INPUT_DEVICE;
+}
+
+export async function getLastInputDevice(): Promise<string | undefined> {
+  return LocalStorage.getItem<string>(LAST_INPUT_DEVICE_STORAGE_KEY);
+}
+
+export async function setLastInputDevice(deviceName: string): Promise<void> {
+  await LocalStorage.setItem(LAST_INPUT_DEVICE_STORAGE_KEY, deviceName);
+}
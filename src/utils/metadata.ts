@@ -0,0 +1,77 @@
+import fs from "fs-extra";
+import { RecordingMetadata, TranscriptionSidecar } from "../types";
+import { getTranscriptionFilePath } from "./audio";
+
+/**
+ * Reads the sidecar JSON stored next to a recording
+ * @param audioFilePath Recording the sidecar belongs to
+ * @returns Sidecar contents, or null if there is none or it can't be read
+ */
+export async function readTranscriptionSidecar(audioFilePath: string): Promise<TranscriptionSidecar | null> {
+  const transcriptionFilePath = getTranscriptionFilePath(audioFilePath);
+
+  try {
+    if (await fs.pathExists(transcriptionFilePath)) {
+      return await fs.readJSON(transcriptionFilePath);
+    }
+  } catch (error) {
+    console.error(`Error reading transcription file ${transcriptionFilePath}:`, error);
+  }
+
+  return null;
+}
+
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().replace(/^#/, "")).filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Drops empty fields so a sidecar only stores what was actually set
+ * @param metadata Metadata as entered
+ * @returns Cleaned metadata, or undefined if nothing is set
+ */
+export function normalizeRecordingMetadata(metadata: RecordingMetadata): RecordingMetadata | undefined {
+  const title = metadata.title?.trim();
+  const notes = metadata.notes?.trim();
+  const tags = normalizeTags(metadata.tags ?? []);
+
+  const normalized: RecordingMetadata = {
+    ...(title ? { title } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(notes ? { notes } : {}),
+    ...(metadata.isFavorite ? { isFavorite: true } : {}),
+  };
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Stores title, tags, notes and favourite in the sidecar of a recording, creating it if the
+ * recording hasn't been transcribed yet. The transcription in the sidecar is left untouched.
+ * @param audioFilePath Recording to update
+ * @param metadata New metadata, replacing the stored one
+ * @returns The metadata as stored
+ */
+export async function saveRecordingMetadata(
+  audioFilePath: string,
+  metadata: RecordingMetadata,
+): Promise<RecordingMetadata | undefined> {
+  const sidecar = (await readTranscriptionSidecar(audioFilePath)) ?? { audioFile: audioFilePath };
+  const normalized = normalizeRecordingMetadata(metadata);
+  const transcriptionFilePath = getTranscriptionFilePath(audioFilePath);
+
+  // A sidecar that only held metadata has nothing left to store
+  if (!sidecar.text && !normalized) {
+    await fs.remove(transcriptionFilePath);
+    return undefined;
+  }
+
+  await fs.writeJSON(transcriptionFilePath, { ...sidecar, metadata: normalized }, { spaces: 2 });
+
+  return normalized;
+}
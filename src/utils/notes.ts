@@ -0,0 +1,132 @@
+import { getPreferenceValues } from "@raycast/api";
+import fs from "fs-extra";
+import path from "path";
+import { NOTES_CONFIG } from "../constants";
+import { NotesSettings, Preferences, TranscriptionResult } from "../types";
+import { formatDuration } from "./formatting";
+import { parseRecordingDate } from "./historyIndex";
+
+export function getNotesSettings(): NotesSettings {
+  const preferences = getPreferenceValues<Preferences>();
+
+  return {
+    folder: preferences.notesFolder?.trim() || undefined,
+    filenameTemplate: preferences.noteFilenameTemplate?.trim() || NOTES_CONFIG.DEFAULT_FILENAME_TEMPLATE,
+    autoExport: preferences.autoExportNotes ?? false,
+  };
+}
+
+function padNumber(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(date.getDate())}`;
+}
+
+function formatLocalTime(date: Date, separator: string): string {
+  return [date.getHours(), date.getMinutes()].map(padNumber).join(separator);
+}
+
+// JSON strings are valid double-quoted YAML scalars, so quotes, colons and newlines are escaped safely
+function formatYamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Builds the YAML frontmatter of a note, leaving out fields the transcription doesn't have
+ * @param transcription Saved transcription of a recording
+ * @param recordedAt When the recording was made
+ * @returns Frontmatter block, including the --- delimiters
+ */
+export function buildNoteFrontmatter(transcription: TranscriptionResult, recordedAt: Date): string {
+  const language = transcription.detectedLanguage ?? transcription.language;
+  // Obsidian tags can't contain spaces
+  const tags = (transcription.metadata?.tags ?? []).map((tag) => tag.replace(/\s+/g, "-"));
+
+  const lines = [
+    transcription.metadata?.title ? `title: ${formatYamlString(transcription.metadata.title)}` : null,
+    `recorded: ${formatLocalDate(recordedAt)}T${formatLocalTime(recordedAt, ":")}`,
+    transcription.duration !== undefined
+      ? `duration: ${formatYamlString(formatDuration(Math.round(transcription.duration)))}`
+      : null,
+    language && language !== "auto" ? `language: ${formatYamlString(language)}` : null,
+    transcription.model ? `model: ${formatYamlString(transcription.model)}` : null,
+    transcription.prompt ? `prompt: ${formatYamlString(transcription.prompt)}` : null,
+    transcription.postProcessing ? `template: ${formatYamlString(transcription.postProcessing.templateName)}` : null,
+    tags.length > 0 ? ["tags:", ...tags.map((tag) => `  - ${formatYamlString(tag)}`)].join("\n") : null,
+  ].filter((line) => line !== null);
+
+  return ["---", ...lines, "---"].join("\n");
+}
+
+/**
+ * Builds a Markdown note for a transcription: frontmatter followed by the text,
+ * the template output when the transcription was post-processed
+ * @param transcription Saved transcription of a recording
+ * @param recordedAt When the recording was made
+ * @returns Note contents
+ */
+export function buildNoteMarkdown(transcription: TranscriptionResult, recordedAt: Date): string {
+  const text = transcription.postProcessing?.text ?? transcription.text;
+  return `${buildNoteFrontmatter(transcription, recordedAt)}\n\n${text.trim()}\n`;
+}
+
+/**
+ * Fills in a filename template. Supports {date}, {time}, {title} and {name}, the recording's file name.
+ * Characters that aren't allowed in file names or Obsidian links are replaced.
+ * @param template Filename template, without extension
+ * @param audioFilePath Recording the note belongs to
+ * @param transcription Saved transcription of the recording
+ * @returns File name ending in .md
+ */
+export function formatNoteFileName(
+  template: string,
+  audioFilePath: string,
+  transcription: TranscriptionResult,
+): string {
+  const recordedAt = parseRecordingDate(path.basename(audioFilePath));
+  const recordingName = path.basename(audioFilePath, path.extname(audioFilePath));
+  const values: Record<string, string> = {
+    date: formatLocalDate(recordedAt),
+    time: formatLocalTime(recordedAt, "-"),
+    title: transcription.metadata?.title ?? NOTES_CONFIG.UNTITLED_NAME,
+    name: recordingName,
+  };
+
+  const fileName = template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+    .replace(/[\\/:*?"<>|#^[\]]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return `${fileName || recordingName}.md`;
+}
+
+/**
+ * Writes a transcription as a Markdown note, replacing the note written by an earlier export
+ * @param audioFilePath Recording the transcription belongs to
+ * @param transcription Saved transcription of the recording
+ * @param settings Notes folder and filename template, read from the preferences by default
+ * @returns Path of the written note
+ */
+export async function exportNote(
+  audioFilePath: string,
+  transcription: TranscriptionResult,
+  settings: NotesSettings = getNotesSettings(),
+): Promise<string> {
+  if (!settings.folder) {
+    throw new Error("Choose a notes folder in the extension preferences");
+  }
+
+  const notePath = path.join(
+    settings.folder,
+    formatNoteFileName(settings.filenameTemplate, audioFilePath, transcription),
+  );
+  const recordedAt = parseRecordingDate(path.basename(audioFilePath));
+
+  await fs.ensureDir(settings.folder);
+  await fs.writeFile(notePath, buildNoteMarkdown(transcription, recordedAt));
+
+  return notePath;
+}
@@ -0,0 +1,130 @@
+import fs from "fs-extra";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { DEFAULT_TEMP_DIR, PREPROCESSING_CONFIG, PREPROCESSING_PRESETS, RECORDING_SAMPLE_RATE } from "../constants";
+import { ErrorTypes, PreprocessingPreset } from "../types";
+import { checkSoxInstalled, getFormatOptions, getSoxInputArgs, validateAudioFile } from "./audio";
+
+const execFileAsync = promisify(execFile);
+
+export function getPreprocessingPresets(): PreprocessingPreset[] {
+  return PREPROCESSING_PRESETS.map((preset) => ({ ...preset }));
+}
+
+export function getPreprocessingPreset(presetId?: string): PreprocessingPreset | undefined {
+  return getPreprocessingPresets().find((preset) => preset.id === presetId);
+}
+
+export function getPreprocessedFilePath(filePath: string): string {
+  return filePath.replace(/(\.[^.]+)$/, `.${PREPROCESSING_CONFIG.FILE_SUFFIX}$1`);
+}
+
+export function getNoiseProfilePath(): string {
+  return path.join(DEFAULT_TEMP_DIR, ".noise-profile.prof");
+}
+
+/**
+ * Records a few seconds of room tone and saves it as the noise profile used by noise reduction presets
+ * @param inputDevice Device to record from, it should be the one used for recordings
+ * @returns Path of the saved profile
+ */
+export async function recordNoiseProfile(inputDevice?: string): Promise<string> {
+  const soxPath = await checkSoxInstalled();
+  if (!soxPath) {
+    throw new Error(ErrorTypes.SOX_NOT_INSTALLED);
+  }
+
+  const profilePath = getNoiseProfilePath();
+  await fs.ensureDir(path.dirname(profilePath));
+
+  // The profile is taken in the same channel layout and rate the presets resample to
+  await execFileAsync(
+    soxPath,
+    [
+      ...getSoxInputArgs(inputDevice),
+      "-c",
+      "1",
+      "-r",
+      String(RECORDING_SAMPLE_RATE),
+      "-n",
+      "trim",
+      "0",
+      String(PREPROCESSING_CONFIG.NOISE_PROFILE_SECONDS),
+      "noiseprof",
+      profilePath,
+    ],
+    { timeout: (PREPROCESSING_CONFIG.NOISE_PROFILE_SECONDS + 10) * 1000 },
+  );
+
+  return profilePath;
+}
+
+/**
+ * Builds the sox effect chain for a preset
+ * @param preset Preset to apply
+ * @param noiseProfilePath Profile for the noisered effect
+ * @returns Effect arguments to append after the output file
+ */
+export function buildPreprocessingEffects(preset: PreprocessingPreset, noiseProfilePath: string): string[] {
+  const effects: string[] = [];
+
+  if (preset.resample) {
+    effects.push("remix", "-", "rate", String(RECORDING_SAMPLE_RATE));
+  }
+  if (preset.highPassHz) {
+    effects.push("highpass", String(preset.highPassHz));
+  }
+  if (preset.noiseReduction) {
+    effects.push("noisered", noiseProfilePath, String(preset.noiseReduction));
+  }
+  if (preset.normalizeDb !== undefined) {
+    effects.push("norm", String(preset.normalizeDb));
+  }
+
+  return effects;
+}
+
+/**
+ * Runs a preset over a recording, keeping the original untouched
+ * @param filePath Recording to preprocess
+ * @param preset Preset to apply
+ * @returns Path of the preprocessed file, stored next to the recording
+ */
+export async function preprocessAudio(filePath: string, preset: PreprocessingPreset): Promise<string> {
+  const soxPath = await checkSoxInstalled();
+  if (!soxPath) {
+    throw new Error(ErrorTypes.SOX_NOT_INSTALLED);
+  }
+
+  const noiseProfilePath = getNoiseProfilePath();
+  if (preset.noiseReduction && !(await fs.pathExists(noiseProfilePath))) {
+    throw new Error(
+      `The "${preset.name}" preset needs a noise profile. Use Record Noise Profile in the recording command first.`,
+    );
+  }
+
+  const outputPath = getPreprocessedFilePath(filePath);
+
+  try {
+    await execFileAsync(soxPath, [
+      filePath,
+      ...getFormatOptions(path.extname(outputPath).slice(1)),
+      outputPath,
+      ...buildPreprocessingEffects(preset, noiseProfilePath),
+    ]);
+  } catch (error) {
+    await fs.remove(outputPath);
+    throw new Error(`Preprocessing with "${preset.name}" failed: ${error instanceof Error ? error.message : error}`, {
+      cause: error,
+    });
+  }
+
+  const validation = await validateAudioFile(outputPath);
+  if (!validation.isValid) {
+    await fs.remove(outputPath);
+    throw new Error(`Preprocessing with "${preset.name}" failed: ${validation.error}`);
+  }
+
+  return outputPath;
+}
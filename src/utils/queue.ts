@@ -0,0 +1,166 @@
+import { LocalStorage } from "@raycast/api";
+import fs from "fs-extra";
+import { QUEUE_CONFIG } from "../constants";
+import { QueueJob, QueueJobSettings } from "../types";
+import { getRetryAfterSeconds, isRetryableError } from "./ai/errors";
+import { postProcessTranscription } from "./ai/postProcessing";
+import { transcribeAudio } from "./ai/transcription";
+import { getTemplate } from "./templates";
+import { getBudgetStatus } from "./usage";
+
+const QUEUE_STORAGE_KEY = "transcription-queue";
+
+export async function getQueue(): Promise<QueueJob[]> {
+  const stored = await LocalStorage.getItem<string>(QUEUE_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as QueueJob[];
+  } catch (error) {
+    console.error("Error parsing transcription queue:", error);
+    return [];
+  }
+}
+
+async function storeQueue(jobs: QueueJob[]): Promise<void> {
+  await LocalStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(jobs));
+}
+
+async function updateJob(job: QueueJob): Promise<void> {
+  const jobs = await getQueue();
+  await storeQueue(jobs.map((existing) => (existing.id === job.id ? job : existing)));
+}
+
+/**
+ * Works out when a failed job should be retried, preferring the provider's retry-after hint
+ * @param attempts Number of attempts made so far
+ * @param retryAfterSeconds Delay requested by the provider, if any
+ * @returns Date of the next attempt
+ */
+export function getNextAttemptDate(attempts: number, retryAfterSeconds?: number): Date {
+  const backoffSeconds = Math.min(
+    QUEUE_CONFIG.BASE_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1),
+    QUEUE_CONFIG.MAX_DELAY_SECONDS,
+  );
+  const delaySeconds = Math.max(backoffSeconds, retryAfterSeconds ?? 0);
+  return new Date(Date.now() + delaySeconds * 1000);
+}
+
+/**
+ * Records a transcription that failed so it can be retried later, replacing any job for the same recording
+ * @param audioFile Recording to transcribe
+ * @param settings Settings the transcription was requested with
+ * @param error Error from the failed attempt
+ * @returns The queued job
+ */
+export async function enqueueTranscription(
+  audioFile: string,
+  settings: QueueJobSettings,
+  error: unknown,
+): Promise<QueueJob> {
+  const jobs = (await getQueue()).filter((job) => job.audioFile !== audioFile);
+  const retryable = isRetryableError(error);
+
+  const job: QueueJob = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    audioFile,
+    settings,
+    status: retryable ? "pending" : "failed",
+    attempts: 1,
+    lastError: error instanceof Error ? error.message : String(error),
+    createdAt: new Date().toISOString(),
+    nextAttemptAt: getNextAttemptDate(1, getRetryAfterSeconds(error)).toISOString(),
+  };
+
+  await storeQueue([...jobs, job]);
+  return job;
+}
+
+export async function removeQueuedTranscription(audioFile: string): Promise<void> {
+  const jobs = await getQueue();
+  const remaining = jobs.filter((job) => job.audioFile !== audioFile);
+  if (remaining.length !== jobs.length) {
+    await storeQueue(remaining);
+  }
+}
+
+/**
+ * Runs one queued job, removing it on success and rescheduling or failing it otherwise
+ * @param job Job to run
+ * @returns True if the recording was transcribed
+ */
+export async function runQueuedTranscription(job: QueueJob): Promise<boolean> {
+  try {
+    const result = await transcribeAudio(job.audioFile, {
+      overrideLanguage: job.settings.language,
+      overridePrompt: job.settings.prompt,
+      overrideModel: job.settings.model,
+      overrideProvider: job.settings.provider,
+      mode: job.settings.mode,
+      preprocessingPresetId: job.settings.preprocessingPresetId,
+    });
+
+    const template = job.settings.templateId ? await getTemplate(job.settings.templateId) : undefined;
+    if (template) {
+      try {
+        await postProcessTranscription(job.audioFile, result, template);
+      } catch (error) {
+        console.error("Post-processing error for queued transcription:", error);
+      }
+    }
+
+    await removeQueuedTranscription(job.audioFile);
+    return true;
+  } catch (error) {
+    const attempts = job.attempts + 1;
+    const retryable = isRetryableError(error) && attempts < QUEUE_CONFIG.MAX_ATTEMPTS;
+
+    await updateJob({
+      ...job,
+      attempts,
+      status: retryable ? "pending" : "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: getNextAttemptDate(attempts, getRetryAfterSeconds(error)).toISOString(),
+    });
+    return false;
+  }
+}
+
+/**
+ * Retries every pending job whose backoff has elapsed, one at a time. Once the monthly budget is exceeded
+ * the remaining jobs stay pending without an attempt, so they run when the budget allows it again.
+ * @returns How many jobs succeeded and failed in this run, and how many are waiting on the budget
+ */
+export async function processQueue(): Promise<{ succeeded: number; failed: number; overBudget: number }> {
+  const now = Date.now();
+  const dueJobs = (await getQueue()).filter(
+    (job) => job.status === "pending" && new Date(job.nextAttemptAt).getTime() <= now,
+  );
+
+  let succeeded = 0;
+  let failed = 0;
+  let overBudget = 0;
+
+  for (const [index, job] of dueJobs.entries()) {
+    if ((await getBudgetStatus()).isExceeded) {
+      overBudget = dueJobs.length - index;
+      break;
+    }
+
+    // The recording was deleted since it was queued
+    if (!(await fs.pathExists(job.audioFile))) {
+      await removeQueuedTranscription(job.audioFile);
+      continue;
+    }
+
+    if (await runQueuedTranscription(job)) {
+      succeeded++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { succeeded, failed, overBudget };
+}
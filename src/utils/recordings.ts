@@ -0,0 +1,27 @@
+import { trash } from "@raycast/api";
+import fs from "fs-extra";
+import { getTranscriptionFilePath } from "./audio";
+import { removeHistoryEntry } from "./historyIndex";
+import { getPreprocessedFilePath } from "./preprocessing";
+import { removeQueuedTranscription } from "./queue";
+
+/**
+ * Deletes a recording together with its transcription and preprocessed copy, and forgets it in the queue and index
+ * @param filePath Recording to delete
+ * @param permanently Delete the files instead of moving them to the Trash
+ */
+export async function deleteRecording(filePath: string, permanently = false): Promise<void> {
+  // The audio itself may already be gone when only its transcript was left
+  for (const recordingFilePath of [filePath, getTranscriptionFilePath(filePath), getPreprocessedFilePath(filePath)]) {
+    if (!(await fs.pathExists(recordingFilePath))) continue;
+
+    if (permanently) {
+      await fs.remove(recordingFilePath);
+    } else {
+      await trash(recordingFilePath);
+    }
+  }
+
+  await removeQueuedTranscription(filePath);
+  await removeHistoryEntry(filePath);
+}
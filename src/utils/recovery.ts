@@ -0,0 +1,141 @@
+import fs from "fs-extra";
+import path from "path";
+import { DEFAULT_TEMP_DIR } from "../constants";
+import { ErrorTypes } from "../types";
+import {
+  concatenateAudioFiles,
+  getAudioDuration,
+  getLiveChunkDirectory,
+  getSegmentDirectory,
+  listAudioFiles,
+  validateAudioFile,
+} from "./audio";
+import { getWavDataDuration, hasTruncatedWavHeader, repairWavHeader } from "./wav";
+
+async function listSegmentFiles(filePath: string): Promise<string[]> {
+  const segmentDirectory = getSegmentDirectory(filePath);
+  if (!(await fs.pathExists(segmentDirectory))) {
+    return [];
+  }
+
+  const segments = await fs.readdir(segmentDirectory);
+  return segments
+    .filter((segment) => segment.startsWith("segment-"))
+    .sort()
+    .map((segment) => path.join(segmentDirectory, segment));
+}
+
+function getRecordingLockPath(filePath: string): string {
+  return path.join(path.dirname(filePath), `.lock-${path.basename(filePath, path.extname(filePath))}`);
+}
+
+/**
+ * Marks a recording as owned by this process until it is stopped, so a recording that is still
+ * running or paused isn't mistaken for an interrupted one however long it sits idle
+ * @param filePath Recording being written
+ */
+export async function lockRecording(filePath: string): Promise<void> {
+  await fs.writeFile(getRecordingLockPath(filePath), String(process.pid));
+}
+
+export async function unlockRecording(filePath: string): Promise<void> {
+  await fs.remove(getRecordingLockPath(filePath));
+}
+
+// A lock left behind by a process that has since exited no longer protects the recording
+async function isRecordingLocked(filePath: string): Promise<boolean> {
+  let pid: number;
+  try {
+    pid = parseInt(await fs.readFile(getRecordingLockPath(filePath), "utf8"), 10);
+  } catch {
+    return false;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Detects a recording that was never finished, either because its WAV header was never
+ * written or because paused segments were never joined to it. A recording the recorder
+ * still holds the lock of is never interrupted.
+ * @param filePath Recording to check
+ * @returns True if the recording can be recovered
+ */
+export async function isInterruptedRecording(filePath: string): Promise<boolean> {
+  if (await isRecordingLocked(filePath)) {
+    return false;
+  }
+
+  const segments = await listSegmentFiles(filePath);
+  if (segments.length > 0) {
+    return true;
+  }
+
+  return path.extname(filePath) === ".wav" && (await hasTruncatedWavHeader(filePath));
+}
+
+export async function findInterruptedRecordings(directory: string = DEFAULT_TEMP_DIR): Promise<string[]> {
+  const audioFiles = await listAudioFiles(directory);
+  const interrupted: string[] = [];
+
+  for (const filePath of audioFiles) {
+    try {
+      if (await isInterruptedRecording(filePath)) {
+        interrupted.push(filePath);
+      }
+    } catch (error) {
+      console.error(`Error checking ${filePath} for recovery:`, error);
+    }
+  }
+
+  return interrupted;
+}
+
+/**
+ * Works out the length of an interrupted recording from the audio on disk,
+ * since sox reports the placeholder size left in a broken header
+ * @param filePath Interrupted recording
+ * @returns Duration in seconds, including segments recorded after a pause
+ */
+export async function getInterruptedRecordingDuration(filePath: string): Promise<number> {
+  let total = 0;
+
+  for (const part of [filePath, ...(await listSegmentFiles(filePath))]) {
+    total += (await getWavDataDuration(part)) ?? (await getAudioDuration(part));
+  }
+
+  return Math.round(total);
+}
+
+/**
+ * Repairs an interrupted recording in place: fixes WAV headers from the real data length,
+ * joins paused segments and removes leftover live chunks
+ * @param filePath Recording to recover
+ */
+export async function recoverRecording(filePath: string): Promise<void> {
+  const segments = await listSegmentFiles(filePath);
+
+  for (const part of [filePath, ...segments]) {
+    if (path.extname(part) === ".wav" && (await hasTruncatedWavHeader(part))) {
+      await repairWavHeader(part);
+    }
+  }
+
+  if (segments.length > 0) {
+    await concatenateAudioFiles([filePath, ...segments]);
+    await fs.remove(getSegmentDirectory(filePath));
+  }
+
+  await fs.remove(getLiveChunkDirectory(filePath));
+
+  const validation = await validateAudioFile(filePath);
+  if (!validation.isValid) {
+    throw new Error(validation.error ?? ErrorTypes.INVALID_RECORDING);
+  }
+}
@@ -0,0 +1,179 @@
+import { getPreferenceValues } from "@raycast/api";
+import fs from "fs-extra";
+import path from "path";
+import { DEFAULT_TEMP_DIR, RETENTION_CONFIG } from "../constants";
+import { Preferences, RetentionResult, RetentionSettings } from "../types";
+import { getLiveChunkDirectory, getSegmentDirectory, listAudioFiles } from "./audio";
+import { parseRecordingDate, refreshHistoryEntry } from "./historyIndex";
+import { readTranscriptionSidecar } from "./metadata";
+import { getPreprocessedFilePath } from "./preprocessing";
+import { getQueue } from "./queue";
+import { isInterruptedRecording } from "./recovery";
+
+interface RetentionCandidate {
+  filePath: string;
+  addedAt: Date;
+}
+
+function parseOptionalPositiveNumber(value?: string): number | undefined {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+export function getRetentionSettings(): RetentionSettings {
+  const preferences = getPreferenceValues<Preferences>();
+  const maxStorageMB = parseOptionalPositiveNumber(preferences.maxStorageMB);
+
+  return {
+    maxAgeDays: parseOptionalPositiveNumber(preferences.retentionDays),
+    maxStorageBytes: maxStorageMB !== undefined ? maxStorageMB * 1024 * 1024 : undefined,
+  };
+}
+
+export function hasRetentionPolicy(settings: RetentionSettings): boolean {
+  return settings.maxAgeDays !== undefined || settings.maxStorageBytes !== undefined;
+}
+
+/**
+ * Adds up the size of everything in a folder, including hidden segment and chunk folders
+ * @param directory Folder to measure
+ * @returns Size in bytes, 0 if the folder doesn't exist
+ */
+export async function getDirectorySize(directory: string = DEFAULT_TEMP_DIR): Promise<number> {
+  if (!(await fs.pathExists(directory))) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    total += entry.isDirectory() ? await getDirectorySize(entryPath) : (await fs.stat(entryPath)).size;
+  }
+
+  return total;
+}
+
+async function getPathSize(filePath: string): Promise<number> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isDirectory() ? await getDirectorySize(filePath) : stats.size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Lists the recordings whose audio the retention policy may delete. Only transcribed recordings qualify,
+ * so nothing is lost but audio. Favorites, queued recordings, interrupted recordings waiting to be recovered
+ * and recordings still being written are left alone.
+ * @param directory Recordings folder
+ * @returns Candidates, oldest first
+ */
+async function listRetentionCandidates(directory: string): Promise<RetentionCandidate[]> {
+  const queuedFiles = new Set((await getQueue()).map((job) => job.audioFile));
+  const candidates: RetentionCandidate[] = [];
+
+  for (const filePath of await listAudioFiles(directory)) {
+    if (queuedFiles.has(filePath)) continue;
+
+    const { mtimeMs, birthtimeMs } = await fs.stat(filePath);
+    if (Date.now() - mtimeMs < RETENTION_CONFIG.RECENTLY_MODIFIED_SECONDS * 1000) continue;
+
+    const sidecar = await readTranscriptionSidecar(filePath);
+    if (!sidecar?.text || sidecar.metadata?.isFavorite) continue;
+
+    try {
+      if (await isInterruptedRecording(filePath)) continue;
+    } catch (error) {
+      console.error(`Error checking ${filePath} for retention:`, error);
+      continue;
+    }
+
+    // Imported recordings keep the date they were recorded, their age counts from the import
+    const recordedAt = parseRecordingDate(path.basename(filePath)).getTime();
+    candidates.push({ filePath, addedAt: new Date(Math.max(recordedAt, birthtimeMs)) });
+  }
+
+  return candidates.sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+}
+
+/**
+ * Deletes the audio of a recording and everything derived from it, keeping its sidecar with the
+ * transcript and metadata
+ * @param filePath Recording to delete the audio of
+ * @returns Bytes freed
+ */
+async function deleteRecordingAudio(filePath: string): Promise<number> {
+  const paths = [
+    filePath,
+    getPreprocessedFilePath(filePath),
+    getSegmentDirectory(filePath),
+    getLiveChunkDirectory(filePath),
+  ];
+
+  let freedBytes = 0;
+  for (const deletedPath of paths) {
+    freedBytes += await getPathSize(deletedPath);
+    await fs.remove(deletedPath);
+  }
+
+  await refreshHistoryEntry(filePath, [], path.dirname(filePath));
+  return freedBytes;
+}
+
+/**
+ * Deletes audio the retention settings no longer allow: first recordings older than the maximum age,
+ * then the oldest recordings until the folder fits in the storage limit. Transcripts are kept.
+ * @param directory Recordings folder
+ * @param settings Maximum age and folder size, read from the preferences by default
+ * @returns How many recordings lost their audio and how much space that freed
+ */
+export async function applyRetentionPolicy(
+  directory: string = DEFAULT_TEMP_DIR,
+  settings: RetentionSettings = getRetentionSettings(),
+): Promise<RetentionResult> {
+  const result: RetentionResult = { deletedCount: 0, freedBytes: 0 };
+  if (!hasRetentionPolicy(settings)) {
+    return result;
+  }
+
+  const candidates = await listRetentionCandidates(directory);
+  const remaining: RetentionCandidate[] = [];
+
+  const deleteCandidate = async (candidate: RetentionCandidate) => {
+    try {
+      result.freedBytes += await deleteRecordingAudio(candidate.filePath);
+      result.deletedCount++;
+    } catch (error) {
+      console.error(`Error deleting ${candidate.filePath} for retention:`, error);
+    }
+  };
+
+  if (settings.maxAgeDays !== undefined) {
+    const cutoff = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    for (const candidate of candidates) {
+      if (candidate.addedAt.getTime() < cutoff) {
+        await deleteCandidate(candidate);
+      } else {
+        remaining.push(candidate);
+      }
+    }
+  } else {
+    remaining.push(...candidates);
+  }
+
+  if (settings.maxStorageBytes !== undefined) {
+    let size = await getDirectorySize(directory);
+
+    for (const candidate of remaining) {
+      if (size <= settings.maxStorageBytes) break;
+
+      const freedBefore = result.freedBytes;
+      await deleteCandidate(candidate);
+      size -= result.freedBytes - freedBefore;
+    }
+  }
+
+  return result;
+}
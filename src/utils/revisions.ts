@@ -0,0 +1,64 @@
+import {
+  TranscriptionResult,
+  TranscriptionRevision,
+  TranscriptionRevisionSource,
+  TranscriptionSidecar,
+} from "../types";
+
+export const REVISION_SOURCE_TITLES: Record<TranscriptionRevisionSource, string> = {
+  transcription: "Transcription",
+  edit: "Manual Edit",
+  restore: "Restored",
+};
+
+function createRevisionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Takes a snapshot of a transcription to keep in its revision history
+ * @param transcription Transcription as saved
+ * @param source What produced this version of the text
+ * @param restoredFrom Id of the revision being restored, for "restore" revisions
+ * @returns The new revision
+ */
+export function createRevision(
+  transcription: TranscriptionResult,
+  source: TranscriptionRevisionSource,
+  restoredFrom?: string,
+): TranscriptionRevision {
+  return {
+    id: createRevisionId(),
+    source,
+    restoredFrom,
+    text: transcription.text,
+    timestamp: transcription.timestamp,
+    language: transcription.language,
+    prompt: transcription.prompt,
+    model: transcription.model,
+    provider: transcription.provider,
+    mode: transcription.mode,
+    detectedLanguage: transcription.detectedLanguage,
+    duration: transcription.duration,
+    segments: transcription.segments,
+    preprocessing: transcription.preprocessing,
+  };
+}
+
+/**
+ * Reads the revisions stored in a sidecar. Transcriptions saved before revisions were kept
+ * get their text as the first revision, so the original model output is never lost.
+ * @param sidecar Sidecar JSON of a recording
+ * @returns Revisions, oldest first
+ */
+export function getRevisions(sidecar: TranscriptionSidecar | null): TranscriptionRevision[] {
+  if (sidecar?.revisions && sidecar.revisions.length > 0) {
+    return sidecar.revisions;
+  }
+
+  if (sidecar?.text) {
+    return [createRevision(sidecar as TranscriptionResult, "transcription")];
+  }
+
+  return [];
+}
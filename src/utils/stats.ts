@@ -0,0 +1,155 @@
+import { STATS_CONFIG, TRANSCRIPTION_MODELS } from "../constants";
+import { CostRow, LibraryStats, StatsRow, TranscriptionFile, UsageRecord } from "../types";
+import { getLanguageTitle } from "./historyFilters";
+import { getMonthKey, getUsageCost } from "./usage";
+
+// Weeks start on Monday
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function getModelName(model: string): string {
+  return TRANSCRIPTION_MODELS.find((candidate) => candidate.id === model)?.name ?? model;
+}
+
+function addToRow(rows: Map<string, StatsRow>, key: string, title: string, file: TranscriptionFile) {
+  const row = rows.get(key) ?? { key, title, recordings: 0, seconds: 0, words: 0 };
+  row.recordings += 1;
+  row.seconds += file.duration;
+  row.words += file.wordCount;
+  rows.set(key, row);
+}
+
+/**
+ * Adds up the recordings in history. Languages and models only count transcribed recordings.
+ * @param files Recordings in history
+ * @param now Reference time for the weekly breakdown
+ * @returns Totals, and breakdowns by language and model (largest first) and by week (most recent first)
+ */
+export function getLibraryStats(files: TranscriptionFile[], now: Date = new Date()): LibraryStats {
+  const byLanguage = new Map<string, StatsRow>();
+  const byModel = new Map<string, StatsRow>();
+  const byWeek = new Map<string, StatsRow>();
+
+  // Every week is listed, even without recordings, so gaps show up
+  const currentWeek = getWeekStart(now);
+  for (let index = 0; index < STATS_CONFIG.WEEKS_SHOWN; index++) {
+    const week = new Date(currentWeek);
+    week.setDate(week.getDate() - index * 7);
+    const title = index === 0 ? "This Week" : week.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    byWeek.set(week.toISOString(), { key: week.toISOString(), title, recordings: 0, seconds: 0, words: 0 });
+  }
+
+  let transcribedSeconds = 0;
+
+  for (const file of files) {
+    const week = byWeek.get(getWeekStart(file.recordedAt).toISOString());
+    if (week) {
+      week.recordings += 1;
+      week.seconds += file.duration;
+      week.words += file.wordCount;
+    }
+
+    if (!file.transcription) continue;
+
+    transcribedSeconds += file.duration;
+    const language = getLanguageTitle(file);
+    addToRow(byLanguage, language ?? "unknown", language ?? "Unknown", file);
+    addToRow(byModel, file.model ?? "unknown", file.model ? getModelName(file.model) : "Unknown", file);
+  }
+
+  const words = files.reduce((total, file) => total + file.wordCount, 0);
+  const bySeconds = (a: StatsRow, b: StatsRow) => b.seconds - a.seconds;
+
+  return {
+    recordings: files.length,
+    transcribed: files.filter((file) => file.transcription).length,
+    seconds: files.reduce((total, file) => total + file.duration, 0),
+    words,
+    wordsPerMinute: transcribedSeconds > 0 ? words / (transcribedSeconds / 60) : null,
+    byLanguage: [...byLanguage.values()].sort(bySeconds),
+    byModel: [...byModel.values()].sort(bySeconds),
+    byWeek: [...byWeek.values()],
+  };
+}
+
+function groupUsage(
+  records: UsageRecord[],
+  prices: Record<string, number>,
+  getKey: (record: UsageRecord) => string,
+  getTitle: (record: UsageRecord) => string,
+): Map<string, CostRow> {
+  const rows = new Map<string, CostRow>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    const row = rows.get(key) ?? {
+      key,
+      title: getTitle(record),
+      seconds: 0,
+      requests: 0,
+      cost: 0,
+      hasUnpricedUsage: false,
+    };
+    const cost = getUsageCost(record, prices);
+
+    row.seconds += record.seconds;
+    row.requests += record.requests;
+    row.cost += cost ?? 0;
+    row.hasUnpricedUsage ||= cost === null;
+    rows.set(key, row);
+  }
+
+  return rows;
+}
+
+/**
+ * Estimates API cost by month, listing recent months even when nothing was transcribed
+ * @param records Tracked usage
+ * @param prices Price per minute by model
+ * @param now Reference time
+ * @returns Rows for the most recent months, this month first
+ */
+export function getCostByMonth(
+  records: UsageRecord[],
+  prices: Record<string, number>,
+  now: Date = new Date(),
+): CostRow[] {
+  const rows = groupUsage(
+    records,
+    prices,
+    (record) => record.month,
+    (record) => record.month,
+  );
+
+  return Array.from({ length: STATS_CONFIG.MONTHS_SHOWN }, (_, index): CostRow => {
+    const month = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    const key = getMonthKey(month);
+    const title = month.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+    return { ...(rows.get(key) ?? { key, seconds: 0, requests: 0, cost: 0, hasUnpricedUsage: false }), title };
+  });
+}
+
+/**
+ * Estimates API cost by provider and model
+ * @param records Tracked usage
+ * @param prices Price per minute by model
+ * @returns Rows with the most expensive model first
+ */
+export function getCostByModel(records: UsageRecord[], prices: Record<string, number>): CostRow[] {
+  const rows = groupUsage(
+    records,
+    prices,
+    (record) => `${record.provider}/${record.model}`,
+    (record) => getModelName(record.model),
+  );
+
+  for (const record of records) {
+    const row = rows.get(`${record.provider}/${record.model}`)!;
+    row.pricePerMinute = record.provider === "local" ? 0 : prices[record.model];
+  }
+
+  return [...rows.values()].sort((a, b) => b.cost - a.cost);
+}
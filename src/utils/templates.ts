@@ -0,0 +1,79 @@
+import { LocalStorage } from "@raycast/api";
+import { DEFAULT_POST_PROCESSING_TEMPLATES } from "../constants";
+import { PostProcessingTemplate } from "../types";
+
+const TEMPLATES_STORAGE_KEY = "post-processing-templates";
+const LAST_TEMPLATE_STORAGE_KEY = "last-post-processing-template";
+
+export function getDefaultTemplates(): PostProcessingTemplate[] {
+  return DEFAULT_POST_PROCESSING_TEMPLATES.map((template) => ({ ...template }));
+}
+
+export async function getTemplates(): Promise<PostProcessingTemplate[]> {
+  const stored = await LocalStorage.getItem<string>(TEMPLATES_STORAGE_KEY);
+  if (!stored) {
+    return getDefaultTemplates();
+  }
+
+  try {
+    return JSON.parse(stored) as PostProcessingTemplate[];
+  } catch (error) {
+    console.error("Error parsing post-processing templates:", error);
+    return getDefaultTemplates();
+  }
+}
+
+async function storeTemplates(templates: PostProcessingTemplate[]): Promise<void> {
+  await LocalStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
+
+export async function getTemplate(templateId: string): Promise<PostProcessingTemplate | undefined> {
+  const templates = await getTemplates();
+  return templates.find((template) => template.id === templateId);
+}
+
+/**
+ * Adds a template, or replaces the one with the same id
+ * @param template Template to store
+ * @returns All templates after the change
+ */
+export async function saveTemplate(template: PostProcessingTemplate): Promise<PostProcessingTemplate[]> {
+  const templates = await getTemplates();
+  const index = templates.findIndex((existing) => existing.id === template.id);
+
+  if (index === -1) {
+    templates.push(template);
+  } else {
+    templates[index] = template;
+  }
+
+  await storeTemplates(templates);
+  return templates;
+}
+
+export async function deleteTemplate(templateId: string): Promise<PostProcessingTemplate[]> {
+  const templates = (await getTemplates()).filter((template) => template.id !== templateId);
+  await storeTemplates(templates);
+  return templates;
+}
+
+export async function resetTemplates(): Promise<PostProcessingTemplate[]> {
+  await LocalStorage.removeItem(TEMPLATES_STORAGE_KEY);
+  return getDefaultTemplates();
+}
+
+export function createTemplateId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "template"}-${Date.now().toString(36)}`;
+}
+
+export async function getLastUsedTemplateId(): Promise<string | undefined> {
+  return LocalStorage.getItem<string>(LAST_TEMPLATE_STORAGE_KEY);
+}
+
+export async function setLastUsedTemplateId(templateId: string): Promise<void> {
+  await LocalStorage.setItem(LAST_TEMPLATE_STORAGE_KEY, templateId);
+}
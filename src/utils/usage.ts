@@ -0,0 +1,131 @@
+import { Alert, LocalStorage, confirmAlert, getPreferenceValues } from "@raycast/api";
+import { TRANSCRIPTION_MODELS } from "../constants";
+import { BudgetStatus, Preferences, TranscriptionModelId, TranscriptionProviderId, UsageRecord } from "../types";
+
+const USAGE_STORAGE_KEY = "transcription-usage";
+
+export function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
+}
+
+export async function getUsage(): Promise<UsageRecord[]> {
+  const stored = await LocalStorage.getItem<string>(USAGE_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as UsageRecord[];
+  } catch (error) {
+    console.error("Error parsing transcription usage:", error);
+    return [];
+  }
+}
+
+/**
+ * Adds audio sent to a provider to the usage of the month, one record per month, provider and model
+ * @param provider Provider the audio was sent to
+ * @param model Model that transcribed it
+ * @param seconds Length of the audio
+ * @param date When it was transcribed
+ */
+export async function recordUsage(
+  provider: TranscriptionProviderId,
+  model: TranscriptionModelId,
+  seconds: number,
+  date: Date = new Date(),
+): Promise<void> {
+  const month = getMonthKey(date);
+  const records = await getUsage();
+  const existing = records.find(
+    (record) => record.month === month && record.provider === provider && record.model === model,
+  );
+
+  if (existing) {
+    existing.seconds += seconds;
+    existing.requests += 1;
+  } else {
+    records.push({ month, provider, model, seconds, requests: 1 });
+  }
+
+  await LocalStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+}
+
+/**
+ * Parses price overrides written as `model=price`, separated by commas or new lines
+ * @param value Preference value
+ * @returns Price per minute by model, entries that don't parse are skipped
+ */
+export function parseModelPrices(value?: string): Record<string, number> {
+  const prices: Record<string, number> = {};
+
+  for (const entry of (value ?? "").split(/[,\n]/)) {
+    const [model, price] = entry.split("=").map((part) => part.trim());
+    const parsed = parseFloat(price ?? "");
+    if (model && !isNaN(parsed) && parsed >= 0) {
+      prices[model] = parsed;
+    }
+  }
+
+  return prices;
+}
+
+// Groq's list prices, overridden by the prices set in the preferences
+export function getModelPrices(): Record<string, number> {
+  const { modelPrices } = getPreferenceValues<Preferences>();
+  const defaults = Object.fromEntries(TRANSCRIPTION_MODELS.map((model) => [model.id, model.pricePerMinute]));
+  return { ...defaults, ...parseModelPrices(modelPrices) };
+}
+
+/**
+ * Estimates what a usage record cost. A local server is free.
+ * @param record Usage to price
+ * @param prices Price per minute by model
+ * @returns Cost in USD, or null when the model has no price
+ */
+export function getUsageCost(record: UsageRecord, prices: Record<string, number>): number | null {
+  if (record.provider === "local") {
+    return 0;
+  }
+
+  const price = prices[record.model];
+  return price === undefined ? null : (record.seconds / 60) * price;
+}
+
+export function getMonthlyBudget(): number | undefined {
+  const parsed = parseFloat(getPreferenceValues<Preferences>().monthlyBudget ?? "");
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+export async function getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus> {
+  const month = getMonthKey(now);
+  const prices = getModelPrices();
+  const spent = (await getUsage())
+    .filter((record) => record.month === month)
+    // Models without a price can't be counted, the stats command points them out
+    .reduce((total, record) => total + (getUsageCost(record, prices) ?? 0), 0);
+  const budget = getMonthlyBudget();
+
+  return { spent, budget, isExceeded: budget !== undefined && spent >= budget };
+}
+
+export function formatCost(amount: number): string {
+  return amount > 0 && amount < 0.01 ? "< $0.01" : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Asks before transcribing once this month's estimated cost has reached the budget
+ * @returns Whether to go ahead, always true without a budget or under it
+ */
+export async function confirmWithinBudget(): Promise<boolean> {
+  const status = await getBudgetStatus();
+  if (!status.isExceeded || status.budget === undefined) {
+    return true;
+  }
+
+  return confirmAlert({
+    title: "Monthly Budget Exceeded",
+    message: `About ${formatCost(status.spent)} of your ${formatCost(status.budget)} budget has been spent this month. Transcribe anyway?`,
+    primaryAction: { title: "Transcribe", style: Alert.ActionStyle.Default },
+  });
+}
@@ -0,0 +1,182 @@
+import fs from "fs-extra";
+import { AudioChunk, WavLayout } from "../types";
+
+// Enough to reach the data chunk past the fmt chunk and any metadata chunks sox writes before it
+const HEADER_SCAN_BYTES = 4096;
+
+/**
+ * Finds the format and the start of the sample data in a WAV file. The declared data size is only
+ * correct once sox has closed the file, so callers work from the file size instead.
+ * @param filePath WAV file to read, possibly still being recorded
+ * @returns Layout of the file, or null if it isn't a WAV file or has no data chunk yet
+ */
+export async function readWavLayout(filePath: string): Promise<WavLayout | null> {
+  const handle = await fs.open(filePath, "r");
+
+  try {
+    const header = Buffer.alloc(HEADER_SCAN_BYTES);
+    const { bytesRead } = await fs.read(handle, header, 0, header.length, 0);
+
+    if (bytesRead < 12 || header.toString("ascii", 0, 4) !== "RIFF" || header.toString("ascii", 8, 12) !== "WAVE") {
+      return null;
+    }
+
+    let formatChunk: Buffer | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= bytesRead) {
+      const chunkId = header.toString("ascii", offset, offset + 4);
+      const chunkSize = header.readUInt32LE(offset + 4);
+
+      if (chunkId === "data") {
+        if (!formatChunk || formatChunk.length < 16) return null;
+
+        const byteRate = formatChunk.readUInt32LE(8);
+        const blockAlign = formatChunk.readUInt16LE(12);
+        return byteRate > 0 && blockAlign > 0
+          ? { dataOffset: offset + 8, declaredDataSize: chunkSize, byteRate, blockAlign, formatChunk }
+          : null;
+      }
+
+      if (chunkId === "fmt ") {
+        formatChunk = Buffer.from(header.subarray(offset + 8, offset + 8 + chunkSize));
+      }
+
+      // Chunks are padded to an even size
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    return null;
+  } finally {
+    await fs.close(handle);
+  }
+}
+
+/**
+ * Checks whether a WAV header still holds the placeholder sizes sox writes before it closes the file,
+ * which happens when recording was interrupted
+ * @param filePath WAV file to check
+ * @returns True if the header declares more data than the file holds, or none at all
+ */
+export async function hasTruncatedWavHeader(filePath: string): Promise<boolean> {
+  const layout = await readWavLayout(filePath);
+  if (!layout) {
+    return false;
+  }
+
+  const { size } = await fs.stat(filePath);
+  const actualDataSize = size - layout.dataOffset;
+  return actualDataSize > 0 && (layout.declaredDataSize === 0 || layout.declaredDataSize > actualDataSize);
+}
+
+/**
+ * Rewrites the RIFF and data sizes of a WAV file from the data actually on disk,
+ * dropping a trailing partial sample
+ * @param filePath WAV file to repair in place
+ * @returns True if the header was rewritten
+ */
+export async function repairWavHeader(filePath: string): Promise<boolean> {
+  const layout = await readWavLayout(filePath);
+  if (!layout) {
+    return false;
+  }
+
+  const { size } = await fs.stat(filePath);
+  const rawDataSize = Math.max(0, size - layout.dataOffset);
+  const dataSize = rawDataSize - (rawDataSize % layout.blockAlign);
+
+  if (dataSize !== rawDataSize) {
+    await fs.truncate(filePath, layout.dataOffset + dataSize);
+  }
+
+  const sizes = Buffer.alloc(4);
+  const handle = await fs.open(filePath, "r+");
+
+  try {
+    sizes.writeUInt32LE(layout.dataOffset + dataSize - 8, 0);
+    await fs.write(handle, sizes, 0, 4, 4);
+
+    sizes.writeUInt32LE(dataSize, 0);
+    await fs.write(handle, sizes, 0, 4, layout.dataOffset - 4);
+  } finally {
+    await fs.close(handle);
+  }
+
+  return true;
+}
+
+/**
+ * Builds a WAV header for sample data in a given format
+ * @param formatChunk Body of the fmt chunk to copy
+ * @param dataLength Size of the sample data in bytes
+ * @returns Header to write before the sample data
+ */
+export function buildWavHeader(formatChunk: Buffer, dataLength: number): Buffer {
+  const header = Buffer.alloc(12 + 8 + formatChunk.length + 8);
+
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(header.length - 8 + dataLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(formatChunk.length, 16);
+  formatChunk.copy(header, 20);
+
+  const dataHeaderOffset = 20 + formatChunk.length;
+  header.write("data", dataHeaderOffset, "ascii");
+  header.writeUInt32LE(dataLength, dataHeaderOffset + 4);
+
+  return header;
+}
+
+/**
+ * Works out how much audio has been written to a WAV file from its size
+ * @param filePath WAV file, possibly still being recorded
+ * @returns Seconds of audio in the file, or null if it isn't readable as WAV
+ */
+export async function getWavDataDuration(filePath: string): Promise<number | null> {
+  const layout = await readWavLayout(filePath);
+  if (!layout) {
+    return null;
+  }
+
+  const { size } = await fs.stat(filePath);
+  return Math.max(0, size - layout.dataOffset) / layout.byteRate;
+}
+
+/**
+ * Copies part of a WAV file into a new WAV file without decoding it, so it works on a file sox is still writing
+ * @param sourcePath WAV file to read from
+ * @param outputPath File to write the range to
+ * @param start Start of the range in seconds
+ * @param end End of the range in seconds
+ * @returns The written chunk, or null if the source isn't readable as WAV
+ */
+export async function extractWavRange(
+  sourcePath: string,
+  outputPath: string,
+  start: number,
+  end: number,
+): Promise<AudioChunk | null> {
+  const layout = await readWavLayout(sourcePath);
+  if (!layout) {
+    return null;
+  }
+
+  const toByteOffset = (seconds: number) =>
+    Math.floor((seconds * layout.byteRate) / layout.blockAlign) * layout.blockAlign;
+
+  const startByte = toByteOffset(start);
+  const dataLength = Math.max(0, toByteOffset(end) - startByte);
+  const data = Buffer.alloc(dataLength);
+
+  const handle = await fs.open(sourcePath, "r");
+  try {
+    const { bytesRead } = await fs.read(handle, data, 0, dataLength, layout.dataOffset + startByte);
+    const samples = data.subarray(0, bytesRead - (bytesRead % layout.blockAlign));
+
+    await fs.writeFile(outputPath, Buffer.concat([buildWavHeader(layout.formatChunk, samples.length), samples]));
+    return { filePath: outputPath, start, duration: samples.length / layout.byteRate };
+  } finally {
+    await fs.close(handle);
+  }
+}